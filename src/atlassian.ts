@@ -0,0 +1,152 @@
+import { fetch as undiciFetch } from 'undici';
+import type { OutputProfile } from './formats.js';
+import type { InboundIdentity } from './inbound-auth.js';
+import { logger } from './logger.js';
+import { API_GATEWAY, cloudIdFor, requireUserAuth, UserCredential } from './oauth.js';
+import { Flavor, getProfileStore } from './profiles.js';
+
+/*
+ * Shared Atlassian plumbing: HTTP client, credential resolution and the
+ * structured error shape returned by every tool.
+ *
+ * Credentials come from the profile selected by the request's connectionId
+ * (see profiles.ts). A per-user credential on the call context (see oauth.ts)
+ * is used instead of the profile's service account. Confluence and Jira Cloud
+ * live on the same site and accept the same credentials, so Jira uses the
+ * profile's base URL unless the profile sets jiraBaseUrl (JIRA_BASE_URL for
+ * the default profile). On Data Center (the profile's flavor) requests go
+ * straight to the site, and a bearer token is sent as a Personal Access Token.
+ */
+
+// Use global fetch if available (Node 18+), otherwise fall back to undici
+export const httpFetch: typeof fetch = (globalThis as any).fetch ?? (undiciFetch as any);
+
+// Per-call hooks passed to tool handlers by the transport
+export interface ToolContext {
+  // Report progress on long-running calls; only set when the client can receive notifications
+  progress?: (progress: number, total?: number, message?: string) => void;
+  // Route segment selecting the credential profile; undefined uses the default profile
+  connectionId?: string;
+  // The calling user's own Atlassian credential, when one was supplied or signed in
+  userCredential?: UserCredential;
+  // Where the user can sign in (OAuth 3LO) when a user credential is required but missing
+  loginUrl?: string;
+  // How results are shaped for this connection; a tool's outputProfile argument overrides it
+  outputProfile?: OutputProfile;
+  // The authenticated MCP client, when inbound auth is on; decides which tools it may see
+  identity?: InboundIdentity;
+}
+
+// Structured error helper for tool results
+export function toolError(code: string, message: string, details?: any) {
+  return { error: { code, message, details } };
+}
+
+export interface AtlassianConfig {
+  // Where API requests go: the site itself, or the api.atlassian.com gateway for OAuth tokens
+  base: string;
+  // Where users browse the site; result URLs are built from this
+  siteBase: string;
+  authHeader: string;
+  profileId: string;
+  // True when calls run with the end user's permissions rather than a service account
+  asUser: boolean;
+  flavor: Flavor;
+  // Confluence's path below base and siteBase: /wiki on Cloud, the profile's contextPath on Data Center, '' for Jira
+  contextPath: string;
+}
+
+function authRequired(product: string, ctx: ToolContext) {
+  return toolError('AUTH_REQUIRED', ctx.loginUrl
+    ? `${product} requires you to sign in with your Atlassian account: ${ctx.loginUrl}`
+    : `${product} requires your own Atlassian credentials in the Authorization header`, { loginUrl: ctx.loginUrl });
+}
+
+async function resolveConfig(product: 'Confluence' | 'Jira', ctx: ToolContext) {
+  const store = getProfileStore();
+  const entry = store.resolve(ctx.connectionId);
+
+  if (!entry) {
+    if (store.singleTenant) {
+      logger.error('No Confluence credentials found. Please set CONFLUENCE_BASE_URL, CONFLUENCE_EMAIL, and CONFLUENCE_API_TOKEN environment variables.');
+      return toolError('CONFIGURATION_ERROR', `${product} credentials not configured`, {
+        missing: ['CONFLUENCE_BASE_URL', 'CONFLUENCE_EMAIL', 'CONFLUENCE_API_TOKEN'],
+      });
+    }
+    logger.error('No credential profile for connection', { connectionId: ctx.connectionId });
+    return toolError('CONFIGURATION_ERROR', `No credential profile configured for connection "${ctx.connectionId}"`, {
+      connectionId: ctx.connectionId,
+    });
+  }
+
+  if (!entry.profile) {
+    logger.error('Credential profile is invalid', { product, profileId: entry.id, errors: entry.errors });
+    return toolError('CONFIGURATION_ERROR', `${product} credentials not configured for profile "${entry.id}"`, {
+      profile: entry.id,
+      source: entry.source,
+      errors: entry.errors,
+    });
+  }
+
+  const profile = entry.profile;
+  const siteBase = product === 'Jira' ? profile.jiraBaseUrl || profile.baseUrl : profile.baseUrl;
+  const site = { flavor: profile.flavor, contextPath: product === 'Jira' ? '' : profile.contextPath };
+  const user = ctx.userCredential;
+
+  // Data Center has no API gateway; a bearer token from the caller is a Personal Access Token for the site itself
+  if (user?.kind === 'oauth' && profile.flavor === 'datacenter') {
+    const config: AtlassianConfig = { base: siteBase, siteBase, authHeader: `Bearer ${user.accessToken}`, profileId: profile.id, asUser: true, ...site };
+    return config;
+  }
+
+  if (user?.kind === 'oauth') {
+    let cloudId: string | undefined;
+    try {
+      cloudId = await cloudIdFor(user.accessToken, siteBase);
+    } catch (error: any) {
+      logger.error('Could not resolve cloud id', { siteBase, err: error });
+      return toolError('AUTH_FAILED', 'Your Atlassian access token was rejected; sign in again', { loginUrl: ctx.loginUrl });
+    }
+    if (!cloudId) {
+      return toolError('AUTH_FAILED', `Your Atlassian account has not granted this app access to ${siteBase}`, { site: siteBase, loginUrl: ctx.loginUrl });
+    }
+    const config: AtlassianConfig = {
+      base: `${API_GATEWAY}/ex/${product === 'Jira' ? 'jira' : 'confluence'}/${cloudId}`,
+      siteBase,
+      authHeader: `Bearer ${user.accessToken}`,
+      profileId: profile.id,
+      asUser: true,
+      ...site,
+    };
+    return config;
+  }
+
+  if (user?.kind === 'basic') {
+    const config: AtlassianConfig = { base: siteBase, siteBase, authHeader: user.authHeader, profileId: profile.id, asUser: true, ...site };
+    return config;
+  }
+
+  if (requireUserAuth || profile.authType === 'none') return authRequired(product, ctx);
+
+  const config: AtlassianConfig = {
+    base: siteBase,
+    siteBase,
+    authHeader: profile.authType === 'bearer'
+      ? `Bearer ${profile.token}`
+      : 'Basic ' + Buffer.from(`${profile.email}:${profile.apiToken}`).toString('base64'),
+    profileId: profile.id,
+    asUser: false,
+    ...site,
+  };
+  return config;
+}
+
+// Resolve Confluence base URL and auth header for the connection's profile (or the calling user)
+export function getConfluenceConfig(ctx: ToolContext = {}) {
+  return resolveConfig('Confluence', ctx);
+}
+
+// Jira Cloud shares the site (and credentials) with Confluence unless the profile overrides jiraBaseUrl
+export function getJiraConfig(ctx: ToolContext = {}) {
+  return resolveConfig('Jira', ctx);
+}
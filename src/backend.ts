@@ -0,0 +1,166 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { httpFetch } from './atlassian.js';
+import { loadFakeConfluence } from './fake-confluence.js';
+import { logger } from './logger.js';
+
+/*
+ * Atlassian backends: the layer atlassianFetch sends every REST call through.
+ * Tool handlers build the same requests whichever backend is active, so the
+ * whole server (/mcp, sessions, retries, tool schemas) can run offline.
+ *
+ * ATLASSIAN_BACKEND selects one:
+ * - live (default): the real site over HTTP.
+ * - fake: an in-memory Confluence built from the JSON fixtures in
+ *   FAKE_CONFLUENCE_FIXTURES (see fake-confluence.ts).
+ * - record: live, and every exchange is appended to ATLASSIAN_RECORDINGS_FILE.
+ * - replay: answers from ATLASSIAN_RECORDINGS_FILE without touching the
+ *   network; a request that was never recorded fails with BackendError.
+ *
+ * Recordings store the method, path and query (not the host, so they replay
+ * against any configured site), the request body and the response. Request
+ * headers, and with them credentials, are never written.
+ */
+
+export interface AtlassianBackend {
+  readonly name: string;
+  fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+// A failure that retrying the same request cannot fix (e.g. a replay miss)
+export class BackendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+export interface RecordedExchange {
+  method: string;
+  path: string;
+  requestBody?: string;
+  status: number;
+  headers?: Record<string, string>;
+  // Parsed JSON when the response was JSON, otherwise the raw text
+  body: any;
+}
+
+// Response headers worth keeping; everything else is site noise
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'atl-traceid'];
+
+export const liveBackend: AtlassianBackend = {
+  name: 'live',
+  fetch: (url, init) => httpFetch(url, init),
+};
+
+function requestKey(method: string, url: string, body?: string) {
+  const u = new URL(url);
+  return { method: method.toUpperCase(), path: u.pathname + u.search, requestBody: body || undefined };
+}
+
+function bodyText(init: RequestInit): string | undefined {
+  return typeof init.body === 'string' ? init.body : undefined;
+}
+
+function readRecordings(file: string): RecordedExchange[] {
+  if (!existsSync(file)) return [];
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  return Array.isArray(parsed) ? parsed : parsed?.exchanges || [];
+}
+
+function toResponse(exchange: RecordedExchange): Response {
+  const headers = new Headers(exchange.headers || {});
+  const text = typeof exchange.body === 'string' ? exchange.body : JSON.stringify(exchange.body ?? null);
+  if (typeof exchange.body !== 'string' && !headers.has('content-type')) headers.set('content-type', 'application/json');
+  // Bodies are not allowed on these statuses
+  const empty = exchange.status === 204 || exchange.status === 304;
+  return new Response(empty ? null : text, { status: exchange.status, headers });
+}
+
+// Pass requests to inner and append each exchange to the recordings file
+export function recordingBackend(inner: AtlassianBackend, file: string): AtlassianBackend {
+  const exchanges = readRecordings(file);
+  return {
+    name: 'record',
+    async fetch(url, init) {
+      const res = await inner.fetch(url, init);
+      const text = await res.text();
+      const headers: Record<string, string> = {};
+      for (const name of RECORDED_HEADERS) {
+        const value = res.headers.get(name);
+        if (value) headers[name] = value;
+      }
+      let body: any = text;
+      if (/json/i.test(headers['content-type'] || '')) {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // Keep the raw text
+        }
+      }
+      const exchange: RecordedExchange = { ...requestKey(init.method || 'GET', url, bodyText(init)), status: res.status, headers, body };
+      exchanges.push(exchange);
+      writeFileSync(file, JSON.stringify({ exchanges }, null, 2));
+      logger.debug('Recorded upstream exchange', { method: exchange.method, path: exchange.path, status: exchange.status });
+      return toResponse(exchange);
+    },
+  };
+}
+
+/**
+ * Answer from recorded exchanges. Identical requests are answered in the
+ * order they were recorded; once only one answer is left it is repeated, so a
+ * recording of one call serves any number of identical reads.
+ */
+export function replayBackend(file: string): AtlassianBackend {
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of readRecordings(file)) {
+    const key = JSON.stringify(requestKey(exchange.method, `http://replay${exchange.path}`, exchange.requestBody));
+    queues.set(key, [...(queues.get(key) || []), exchange]);
+  }
+  logger.info('Replaying recorded Atlassian exchanges', { file, requests: queues.size });
+  return {
+    name: 'replay',
+    async fetch(url, init) {
+      const key = requestKey(init.method || 'GET', url, bodyText(init));
+      const queue = queues.get(JSON.stringify(key));
+      if (!queue?.length) {
+        throw new BackendError(`No recorded response for ${key.method} ${key.path}; record it first with ATLASSIAN_BACKEND=record`);
+      }
+      return toResponse(queue.length > 1 ? queue.shift()! : queue[0]);
+    },
+  };
+}
+
+function requiredFile(variable: string): string {
+  const file = process.env[variable]?.trim();
+  if (!file) throw new Error(`${variable} is required when ATLASSIAN_BACKEND=${process.env.ATLASSIAN_BACKEND}`);
+  return file;
+}
+
+function backendFromEnv(): AtlassianBackend {
+  const kind = (process.env.ATLASSIAN_BACKEND || 'live').trim().toLowerCase();
+  switch (kind) {
+    case 'live':
+      return liveBackend;
+    case 'fake':
+      return loadFakeConfluence(requiredFile('FAKE_CONFLUENCE_FIXTURES'));
+    case 'record':
+      return recordingBackend(liveBackend, requiredFile('ATLASSIAN_RECORDINGS_FILE'));
+    case 'replay':
+      return replayBackend(requiredFile('ATLASSIAN_RECORDINGS_FILE'));
+    default:
+      throw new Error(`Unknown ATLASSIAN_BACKEND "${kind}"; expected live, fake, record or replay`);
+  }
+}
+
+let backend: AtlassianBackend | undefined;
+
+export function getBackend(): AtlassianBackend {
+  if (!backend) backend = backendFromEnv();
+  return backend;
+}
+
+// Swap the backend, e.g. to drive the server against a FakeConfluence in-process
+export function setBackend(next: AtlassianBackend) {
+  backend = next;
+}
@@ -0,0 +1,254 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { AtlassianConfig } from './atlassian.js';
+import { logger } from './logger.js';
+import { cacheLookups } from './metrics.js';
+
+/*
+ * Response cache for the Confluence reads made by tool calls.
+ *
+ * An LRU of upstream JSON responses keyed by credential profile, request path
+ * and query string, so a search page is keyed by its CQL and cursor. Calls
+ * made with a user's own credentials are cached per user. Entries hold the
+ * raw upstream data, so the access policy and redaction still apply to every
+ * response built from them.
+ *
+ * The TTL depends on the tool: CACHE_TTL_SECONDS is the default for every
+ * read tool (0, the default, turns the cache off) and CACHE_TOOL_TTLS
+ * overrides it per tool, e.g. "searchPages=60,getPage=600,listSpaces=0".
+ * Write tools are never cached, and a successful write drops the cached
+ * entries of its profile. Resources and the search index sync read live.
+ *
+ * Identical requests in flight at the same time share one upstream call when
+ * their tool calls cache them for the same time. A page body whose entry has
+ * expired is revalidated with a version-only request and reused while its
+ * version number is unchanged.
+ *
+ * CACHE_MAX_ENTRIES (default 1000) bounds the LRU. With CACHE_FILE set the
+ * entries are loaded from it at startup and saved to it every CACHE_SAVE_MS
+ * (default 60000); the file holds page bodies unredacted. Tool results report their lookups in _meta.cache, and
+ * POST /admin/cache/purge empties the cache (see server.ts).
+ */
+
+const env = process.env;
+const DEFAULT_TTL_S = Math.max(Number(env.CACHE_TTL_SECONDS) || 0, 0);
+const MAX_ENTRIES = Math.max(Number(env.CACHE_MAX_ENTRIES) || 1000, 1);
+const CACHE_FILE = env.CACHE_FILE?.trim() || undefined;
+const SAVE_MS = Math.max(Number(env.CACHE_SAVE_MS) || 60_000, 1000);
+
+// "tool=seconds" pairs; malformed entries are reported at startup and ignored
+export function parseToolTtls(raw: string) {
+  const ttls: Record<string, number> = {};
+  const invalid: string[] = [];
+  for (const part of raw.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const m = part.match(/^([A-Za-z][\w-]*)\s*=\s*(\d+)$/);
+    if (m) ttls[m[1]] = Number(m[2]);
+    else invalid.push(part);
+  }
+  return { ttls, invalid };
+}
+
+const toolTtls = parseToolTtls(env.CACHE_TOOL_TTLS || '');
+export const cacheEnabled = DEFAULT_TTL_S > 0 || Object.values(toolTtls.ttls).some((s) => s > 0);
+
+// How long a tool's reads are cached, in milliseconds; 0 means not at all
+export function cacheTtlMs(tool: string): number {
+  return (toolTtls.ttls[tool] ?? DEFAULT_TTL_S) * 1000;
+}
+
+export interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+interface CacheFile {
+  version: 1;
+  entries: [string, CacheEntry][];
+}
+
+export class ResponseCache {
+  // Map order is recency order: the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private dirty = false;
+
+  constructor(private maxEntries = MAX_ENTRIES, private path?: string) {
+    if (!path) return;
+    try {
+      const data: CacheFile = JSON.parse(readFileSync(path, 'utf8'));
+      for (const [key, entry] of (data.entries || []).slice(-maxEntries)) this.entries.set(key, entry);
+      logger.info('Loaded response cache', { path, entries: this.entries.size });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') logger.error('Could not read response cache; starting empty', { path, err: error });
+    }
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  // The entry, fresh or expired, marked as most recently used
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, value: any, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+    this.dirty = true;
+  }
+
+  // Drop one profile's entries, or everything when no profile is given; returns how many were dropped
+  purge(profileId?: string): number {
+    let purged = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (profileId && !key.startsWith(`${profileId}|`)) continue;
+      this.entries.delete(key);
+      purged++;
+    }
+    if (purged) this.dirty = true;
+    return purged;
+  }
+
+  save() {
+    if (!this.path || !this.dirty) return;
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      const data: CacheFile = { version: 1, entries: [...this.entries.entries()] };
+      writeFileSync(tmp, JSON.stringify(data));
+      renameSync(tmp, this.path);
+      this.dirty = false;
+    } catch (error: any) {
+      logger.error('Could not write response cache', { path: this.path, err: error });
+    }
+  }
+}
+
+let cache: ResponseCache | undefined;
+
+export function getResponseCache(): ResponseCache {
+  if (!cache) {
+    cache = new ResponseCache(MAX_ENTRIES, CACHE_FILE);
+    if (CACHE_FILE) setInterval(() => cache?.save(), SAVE_MS).unref?.();
+  }
+  return cache;
+}
+
+export function logCacheSummary() {
+  if (toolTtls.invalid.length) logger.warn('Ignoring malformed CACHE_TOOL_TTLS entries', { entries: toolTtls.invalid });
+  if (!cacheEnabled) return;
+  logger.info('Response cache enabled', {
+    defaultTtlSeconds: DEFAULT_TTL_S,
+    toolTtlSeconds: toolTtls.ttls,
+    maxEntries: MAX_ENTRIES,
+    file: CACHE_FILE,
+    entries: getResponseCache().size,
+  });
+}
+
+// Calls with the user's own credentials see only what that user may see, so they get their own entries
+export function cacheKey(config: AtlassianConfig, path: string) {
+  const user = config.asUser ? createHash('sha256').update(config.authHeader).digest('hex').slice(0, 16) : '';
+  return `${config.profileId}|${user}|${config.base}${path}`;
+}
+
+// === Per-call scope ===
+
+type Lookup = 'hit' | 'miss' | 'revalidated' | 'coalesced';
+
+interface CacheScope {
+  tool: string;
+  ttlMs: number;
+  counts: Record<Lookup, number>;
+}
+
+const scopes = new AsyncLocalStorage<CacheScope>();
+
+export interface CacheReport {
+  // hit: nothing went upstream; miss: everything did; partial: some of each
+  status: 'hit' | 'miss' | 'partial';
+  hits: number;
+  misses: number;
+  revalidated: number;
+}
+
+function count(scope: CacheScope, lookup: Lookup) {
+  scope.counts[lookup]++;
+  cacheLookups.inc({ tool: scope.tool, result: lookup });
+}
+
+/**
+ * Run a tool call with its reads cached for ttlMs. Returns the handler's
+ * result and, when the call read anything through the cache, a report of
+ * the lookups. Revalidated and coalesced lookups count as hits.
+ */
+export async function withCache<T>(tool: string, ttlMs: number, run: () => Promise<T>): Promise<{ out: T; cache?: CacheReport }> {
+  if (!cacheEnabled || ttlMs <= 0) return { out: await run() };
+  const scope: CacheScope = { tool, ttlMs, counts: { hit: 0, miss: 0, revalidated: 0, coalesced: 0 } };
+  const out = await scopes.run(scope, run);
+  const { hit, miss, revalidated, coalesced } = scope.counts;
+  const hits = hit + revalidated + coalesced;
+  if (!hits && !miss) return { out };
+  return { out, cache: { status: !miss ? 'hit' : hits ? 'partial' : 'miss', hits, misses: miss, revalidated } };
+}
+
+const inFlight = new Map<string, Promise<any>>();
+
+/**
+ * Read through the cache of the current tool call; outside one (or with the
+ * cache off) this is just load(). Failed reads are not cached. revalidate
+ * gets the data of an expired entry and returns it, possibly updated, when
+ * it is still current, or undefined to load it again.
+ */
+export async function cachedRead<T extends { data: any } | { error: any }>(
+  key: string,
+  load: () => Promise<T>,
+  revalidate?: (stale: any) => Promise<any | undefined>,
+): Promise<T> {
+  const scope = scopes.getStore();
+  if (!scope) return load();
+
+  const store = getResponseCache();
+  const entry = store.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    count(scope, 'hit');
+    return { data: entry.value } as T;
+  }
+
+  // Only reads that would store the entry the same way are shared: a call with another TTL
+  // or revalidation mode makes its own request
+  const flightKey = `${scope.ttlMs}|${revalidate ? 'revalidate' : 'load'}|${key}`;
+  const pending = inFlight.get(flightKey);
+  if (pending) {
+    count(scope, 'coalesced');
+    return pending;
+  }
+
+  const read = (async () => {
+    if (entry && revalidate) {
+      const current = await revalidate(entry.value);
+      if (current !== undefined) {
+        store.set(key, current, scope.ttlMs);
+        count(scope, 'revalidated');
+        return { data: current } as T;
+      }
+    }
+    count(scope, 'miss');
+    const res = await load();
+    if (!('error' in res)) store.set(key, res.data, scope.ttlMs);
+    return res;
+  })();
+  inFlight.set(flightKey, read);
+  try {
+    return await read;
+  } finally {
+    inFlight.delete(flightKey);
+  }
+}
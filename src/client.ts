@@ -0,0 +1,214 @@
+import { BackendError, getBackend } from './backend.js';
+import { currentRequestId, logger } from './logger.js';
+import { upstreamDuration, upstreamRequests } from './metrics.js';
+
+/*
+ * Resilient HTTP client for Atlassian calls, sending requests through the
+ * configured backend (the live site, a fake or a replay; see backend.ts) with:
+ * - retries with exponential backoff and full jitter on 429, 5xx and network
+ *   errors, honouring Retry-After (idempotent requests only unless forced);
+ * - a per-attempt timeout via AbortController;
+ * - a per-host circuit breaker that fails fast while the site is down.
+ *
+ * The current request's correlation id is sent as X-Request-Id, and every
+ * attempt is counted in the upstream metrics and logged at debug level with
+ * Atlassian's atl-traceid response header.
+ *
+ * Tunables: ATLASSIAN_MAX_RETRIES (default 3), ATLASSIAN_TIMEOUT_MS (default
+ * 15000), ATLASSIAN_BREAKER_THRESHOLD (consecutive failures, default 5) and
+ * ATLASSIAN_BREAKER_COOLDOWN_MS (default 30000).
+ */
+
+const MAX_RETRIES = Math.max(Number(process.env.ATLASSIAN_MAX_RETRIES ?? 3) || 0, 0);
+const TIMEOUT_MS = Math.max(Number(process.env.ATLASSIAN_TIMEOUT_MS) || 15_000, 100);
+const BREAKER_THRESHOLD = Math.max(Number(process.env.ATLASSIAN_BREAKER_THRESHOLD) || 5, 1);
+const BREAKER_COOLDOWN_MS = Math.max(Number(process.env.ATLASSIAN_BREAKER_COOLDOWN_MS) || 30_000, 1000);
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+const MAX_RETRY_AFTER_MS = 30_000;
+
+export class CircuitOpenError extends Error {
+  constructor(public host: string, public retryAt: number) {
+    super(`${host} is unavailable (circuit open after repeated failures); retry after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(public url: string, public timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+type BreakerState = { failures: number; openUntil: number; probing: boolean };
+
+const breakers = new Map<string, BreakerState>();
+
+function breakerFor(host: string): BreakerState {
+  let state = breakers.get(host);
+  if (!state) {
+    state = { failures: 0, openUntil: 0, probing: false };
+    breakers.set(host, state);
+  }
+  return state;
+}
+
+// Throws while the circuit is open; after the cooldown lets a single probe request through (half-open)
+function admit(host: string) {
+  const state = breakerFor(host);
+  if (state.failures < BREAKER_THRESHOLD) return;
+  if (Date.now() < state.openUntil || state.probing) throw new CircuitOpenError(host, Math.max(state.openUntil, Date.now()));
+  state.probing = true;
+}
+
+// A probe that ended without a verdict (cancelled, or a backend failure) leaves the circuit half-open for the next request
+function releaseProbe(host: string) {
+  breakerFor(host).probing = false;
+}
+
+function recordSuccess(host: string) {
+  const state = breakerFor(host);
+  if (state.failures >= BREAKER_THRESHOLD) logger.info('Circuit closed', { host });
+  state.failures = 0;
+  state.probing = false;
+}
+
+function recordFailure(host: string) {
+  const state = breakerFor(host);
+  state.failures++;
+  state.probing = false;
+  if (state.failures >= BREAKER_THRESHOLD) {
+    state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    logger.error('Circuit open after consecutive failures', { host, failures: state.failures, cooldownMs: BREAKER_COOLDOWN_MS });
+  }
+}
+
+export function breakerStatus() {
+  return [...breakers.entries()].map(([host, s]) => ({
+    host,
+    state: s.failures < BREAKER_THRESHOLD ? 'closed' : Date.now() < s.openUntil ? 'open' : 'half-open',
+    failures: s.failures,
+  }));
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function backoffMs(attempt: number) {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface AtlassianFetchOptions {
+  // Retry even for non-idempotent methods (default: only GET/HEAD/OPTIONS are retried)
+  retry?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Fetch with retries, timeout and circuit breaking. Resolves with the final
+ * response (which may still be non-OK, e.g. 404 or 429 after the last retry);
+ * rejects with CircuitOpenError, TimeoutError or the last network error.
+ */
+export async function atlassianFetch(url: string, init: RequestInit = {}, opts: AtlassianFetchOptions = {}): Promise<Response> {
+  const host = new URL(url).host;
+  const method = (init.method || 'GET').toUpperCase();
+  const retries = (opts.retry ?? ['GET', 'HEAD', 'OPTIONS'].includes(method)) ? MAX_RETRIES : 0;
+  const timeoutMs = opts.timeoutMs ?? TIMEOUT_MS;
+  const headers = new Headers(init.headers);
+  const requestId = currentRequestId();
+  if (requestId && !headers.has('X-Request-Id')) headers.set('X-Request-Id', requestId);
+  const path = new URL(url).pathname;
+
+  for (let attempt = 0; ; attempt++) {
+    admit(host);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    init.signal?.addEventListener('abort', onAbort);
+
+    let res: Response | undefined;
+    let failure: unknown;
+    const started = performance.now();
+    try {
+      res = await getBackend().fetch(url, { ...init, headers, signal: controller.signal });
+    } catch (error) {
+      failure = controller.signal.aborted && !init.signal?.aborted ? new TimeoutError(url, timeoutMs) : error;
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const status = res ? String(res.status) : failure instanceof TimeoutError ? 'timeout' : 'network';
+    upstreamRequests.inc({ host, method, status });
+    upstreamDuration.observeSince({ host, method }, started);
+    logger.debug('Upstream request', {
+      method,
+      host,
+      path,
+      status,
+      attempt: attempt + 1,
+      durationMs: Math.round(performance.now() - started),
+      atlTraceId: res?.headers.get('atl-traceid') || undefined,
+    });
+
+    // Caller cancelled: not the site's fault, don't retry or count it
+    if (init.signal?.aborted) {
+      releaseProbe(host);
+      throw failure ?? new Error('Request aborted');
+    }
+    // Nor is a backend failure that would repeat on every attempt
+    if (failure instanceof BackendError) {
+      releaseProbe(host);
+      throw failure;
+    }
+
+    if (res && !isRetryableStatus(res.status)) {
+      recordSuccess(host);
+      return res;
+    }
+
+    // 429 means the site is up but throttling us; only 5xx, timeouts and network errors trip the breaker
+    if (!res || res.status >= 500) recordFailure(host);
+    else recordSuccess(host);
+
+    if (attempt >= retries) {
+      if (res) return res;
+      throw failure;
+    }
+
+    const hinted = res ? retryAfterMs(res.headers.get('Retry-After')) : undefined;
+    const delay = hinted !== undefined ? Math.min(hinted, MAX_RETRY_AFTER_MS) : backoffMs(attempt);
+    logger.warn('Retrying upstream request', {
+      method,
+      host,
+      path,
+      attempt: attempt + 1,
+      retries,
+      delayMs: Math.round(delay),
+      reason: res ? `HTTP ${res.status}` : (failure as any)?.message || String(failure),
+    });
+    // Drain the body so the connection can be reused
+    await res?.arrayBuffer().catch(() => undefined);
+    await sleep(delay);
+  }
+}
+
+// Human-readable tool error message for a thrown fetch failure
+export function describeFetchError(error: any): string {
+  if (error instanceof CircuitOpenError || error instanceof TimeoutError || error instanceof BackendError) return error.message;
+  return `Exception: ${error?.message || 'Unknown error'}`;
+}
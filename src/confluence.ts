@@ -0,0 +1,184 @@
+import { AtlassianConfig, getConfluenceConfig, toolError, ToolContext } from './atlassian.js';
+import { cachedRead, cacheKey } from './cache.js';
+import { atlassianFetch, describeFetchError } from './client.js';
+import { logger } from './logger.js';
+import { storageToMarkdown } from './markdown.js';
+import { contentLabels, denialReason, PolicyFilter, policyDenied } from './policy.js';
+
+/*
+ * Confluence REST reads shared by tools and resources.
+ */
+
+export interface PageContent {
+  id: string;
+  title: string;
+  url: string;
+  spaceKey?: string;
+  version: number;
+  lastModified?: string;
+  markdown: string;
+}
+
+export interface SpaceSummary {
+  key: string;
+  name: string;
+  type: string;
+  description: string;
+  status?: string;
+  url: string;
+  homepageId?: string;
+}
+
+export interface GetOptions {
+  // Skip the response cache (e.g. for a revalidation request)
+  noCache?: boolean;
+  // Decide whether an expired cached response is still current; see cachedRead
+  revalidate?: (stale: any) => Promise<any | undefined>;
+}
+
+/**
+ * GET a Confluence REST path, mapping failures to the structured tool error
+ * shape. Inside a tool call the response may come from the cache (cache.ts).
+ */
+export async function confluenceGet(config: AtlassianConfig, path: string, subject: string, options: GetOptions = {}) {
+  const load = async () => {
+    const url = `${config.base}${config.contextPath}${path}`;
+    logger.debug('Fetching from Confluence', { url });
+    const res = await atlassianFetch(url, { headers: { Authorization: config.authHeader, Accept: 'application/json' } });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      logger.warn('Confluence API error', { status: res.status, body: text || res.statusText });
+      if (res.status === 404) return toolError('NOT_FOUND', `${subject} not found or not accessible`);
+      return toolError('UPSTREAM_ERROR', `API error: ${res.status} - ${text || res.statusText}`, { status: res.status });
+    }
+    return { data: (await res.json()) as any };
+  };
+  return options.noCache ? load() : cachedRead(cacheKey(config, path), load, options.revalidate);
+}
+
+// Fetch just enough of a page to check it against the access policy
+export async function checkPagePolicy(config: AtlassianConfig, pageId: string) {
+  const page = await confluenceGet(config, `/rest/api/content/${pageId}?expand=space,metadata.labels`, `Page ${pageId}`);
+  if ('error' in page) return page;
+  const denied = denialReason({ spaceKey: page.data?.space?.key, labels: contentLabels(page.data) });
+  return denied ? policyDenied(`Page ${pageId}`, denied) : undefined;
+}
+
+// Where users browse Confluence: the site plus its context path (/wiki on Cloud)
+export function wikiBase(config: AtlassianConfig) {
+  return config.siteBase + config.contextPath;
+}
+
+export function webUrl(config: AtlassianConfig, webui: string | undefined) {
+  return webui ? wikiBase(config) + webui : '';
+}
+
+// Fetch a page and convert its storage-format body to Markdown
+export async function fetchPageMarkdown(pageId: string, ctx: ToolContext = {}) {
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const qs = new URLSearchParams({ expand: 'body.storage,version,space,history.lastUpdated,metadata.labels' });
+    const page = await confluenceGet(config, `/rest/api/content/${pageId}?${qs.toString()}`, `Page ${pageId}`, {
+      // An expired cached body is reused while the version is unchanged; space and labels are refreshed with it
+      revalidate: async (stale) => {
+        const meta = await confluenceGet(config, `/rest/api/content/${pageId}?expand=version,space,metadata.labels`, `Page ${pageId}`, { noCache: true });
+        if ('error' in meta || stale?.version?.number === undefined || meta.data?.version?.number !== stale.version.number) return undefined;
+        return { ...stale, version: meta.data.version, space: meta.data.space, metadata: { ...stale?.metadata, labels: meta.data?.metadata?.labels } };
+      },
+    });
+    if ('error' in page) return page;
+    const data = page.data;
+
+    const spaceKey = data?.space?.key || '';
+    const denied = denialReason({ spaceKey, labels: contentLabels(data) });
+    if (denied) return policyDenied(`Page ${pageId}`, denied);
+    const content: PageContent = {
+      id: String(data?.id || pageId),
+      title: data?.title || '',
+      url: webUrl(config, data?._links?.webui),
+      spaceKey: spaceKey || undefined,
+      version: Number(data?.version?.number) || 0,
+      lastModified: data?.version?.when || data?.history?.lastUpdated?.when || undefined,
+      markdown: storageToMarkdown(data?.body?.storage?.value || '', { baseUrl: wikiBase(config), spaceKey }),
+    };
+    return content;
+  } catch (error: any) {
+    logger.error('Error fetching page from Confluence API', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
+
+export function toSpaceSummary(config: AtlassianConfig, s: any): SpaceSummary {
+  return {
+    key: s?.key,
+    name: s?.name || s?.key,
+    type: s?.type || '',
+    description: s?.description?.plain?.value || '',
+    status: s?.status || undefined,
+    url: webUrl(config, s?._links?.webui),
+    homepageId: s?.homepage?.id ? String(s.homepage.id) : undefined,
+  };
+}
+
+/**
+ * List current spaces, restricted to the given keys when provided.
+ * Follows pagination up to maxSpaces. Spaces the access policy hides are
+ * dropped and counted.
+ */
+export async function fetchSpaces(ctx: ToolContext = {}, keys: string[] = [], maxSpaces = 250) {
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const spaces: SpaceSummary[] = [];
+    const filter = new PolicyFilter();
+    let start = 0;
+    while (spaces.length < maxSpaces) {
+      const qs = new URLSearchParams({ limit: '100', start: String(start), status: 'current', expand: 'description.plain,homepage' });
+      for (const key of keys) qs.append('spaceKey', key);
+      if (!keys.length) qs.set('type', 'global');
+      const page = await confluenceGet(config, `/rest/api/space?${qs.toString()}`, 'Spaces');
+      if ('error' in page) return page;
+      const results: any[] = page.data?.results || [];
+      spaces.push(...results.map((s) => toSpaceSummary(config, s)).filter((s) => filter.keep({ spaceKey: s.key })));
+      if (!results.length || !page.data?._links?.next) break;
+      start += results.length;
+    }
+    return { spaces: spaces.slice(0, maxSpaces), ...filter.report() };
+  } catch (error: any) {
+    logger.error('Error fetching spaces from Confluence API', { err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error));
+  }
+}
+
+// A single space with its top-level pages (children of the homepage)
+export async function fetchSpaceOverview(spaceKey: string, ctx: ToolContext = {}) {
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  const denied = denialReason({ spaceKey });
+  if (denied) return policyDenied(`Space ${spaceKey}`, denied);
+
+  try {
+    const qs = new URLSearchParams({ expand: 'description.plain,homepage' });
+    const page = await confluenceGet(config, `/rest/api/space/${encodeURIComponent(spaceKey)}?${qs.toString()}`, `Space ${spaceKey}`);
+    if ('error' in page) return page;
+    const space = toSpaceSummary(config, page.data);
+
+    let topPages: { id: string; title: string; url: string }[] = [];
+    if (space.homepageId) {
+      const children = await confluenceGet(config, `/rest/api/content/${space.homepageId}/child/page?limit=100&expand=metadata.labels`, 'Child pages');
+      if (!('error' in children)) {
+        topPages = (children.data?.results || [])
+          .filter((c: any) => !denialReason({ spaceKey, labels: contentLabels(c) }))
+          .map((c: any) => ({ id: String(c?.id), title: c?.title || '', url: webUrl(config, c?._links?.webui) }));
+      }
+    }
+    return { space, topPages };
+  } catch (error: any) {
+    logger.error('Error fetching space from Confluence API', { spaceKey, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { spaceKey });
+  }
+}
@@ -0,0 +1,167 @@
+/*
+ * CQL (Confluence Query Language) builder.
+ *
+ * Every user-supplied value goes through quote() or a validator before it is
+ * spliced into the query, so a stray quote or keyword in the search text can
+ * never change the structure of the CQL.
+ */
+
+export class CqlError extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+    this.name = 'CqlError';
+  }
+}
+
+export const CONTENT_TYPES = ['page', 'blogpost', 'attachment', 'comment'] as const;
+export type ContentType = (typeof CONTENT_TYPES)[number];
+
+export const SORT_FIELDS = ['relevance', 'lastModified', 'created', 'title'] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export interface PageSearchFilters {
+  query: string;
+  spaceKey?: string;
+  labels?: string[];
+  contributor?: string;
+  creator?: string;
+  ancestorId?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  types?: ContentType[];
+  titleOnly?: boolean;
+  sort?: SortField;
+  sortDirection?: 'asc' | 'desc';
+}
+
+const SORT_COLUMNS: Record<Exclude<SortField, 'relevance'>, string> = {
+  lastModified: 'lastmodified',
+  created: 'created',
+  title: 'title',
+};
+
+// Quote a value as a CQL string literal, escaping backslashes and double quotes
+export function quote(value: string): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function inList(field: string, values: string[]): string {
+  return values.length === 1 ? `${field} = ${quote(values[0])}` : `${field} in (${values.map(quote).join(', ')})`;
+}
+
+/**
+ * Validate a date filter. Accepts an absolute date (YYYY-MM-DD, optionally
+ * with HH:mm) or a relative offset such as -7d, -2w, -3m, -1y, -12h which
+ * maps to CQL's now("...") function. "m" means months here; CQL spells
+ * months "M" and reads "m" as minutes.
+ */
+export function dateValue(field: string, raw: string): string {
+  const value = raw.trim();
+  const relative = value.match(/^-?(\d{1,4})([hdwmy])$/i);
+  if (relative) {
+    const unit = relative[2].toLowerCase();
+    return `now(${quote(`-${relative[1]}${unit === 'm' ? 'M' : unit}`)})`;
+  }
+
+  const absolute = value.match(/^(\d{4})[-/](\d{2})[-/](\d{2})(?:[ T](\d{2}):(\d{2}))?$/);
+  if (absolute) {
+    const [, y, mo, d, h, mi] = absolute;
+    const date = new Date(`${y}-${mo}-${d}T${h ?? '00'}:${mi ?? '00'}:00Z`);
+    if (!Number.isNaN(date.getTime()) && date.getUTCMonth() + 1 === Number(mo)) {
+      return quote(h ? `${y}-${mo}-${d} ${h}:${mi}` : `${y}-${mo}-${d}`);
+    }
+  }
+  throw new CqlError(field, `${field} must be a date (YYYY-MM-DD or "YYYY-MM-DD HH:mm") or a relative offset like -7d, -2w, -3m; got "${raw}"`);
+}
+
+function spaceKeyValue(raw: string): string {
+  const key = raw.trim();
+  if (!/^~?[A-Za-z0-9_-]+$/.test(key)) throw new CqlError('spaceKey', `Invalid space key: "${raw}"`);
+  return key;
+}
+
+function stringList(field: string, raw: unknown): string[] {
+  const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : raw == null ? [] : null;
+  if (!list) throw new CqlError(field, `${field} must be an array of strings`);
+  return list.map((v) => String(v ?? '').trim()).filter(Boolean);
+}
+
+// Turn loosely-typed tool arguments into validated filters; throws CqlError on bad input
+export function parsePageSearchFilters(params: any, query: string): PageSearchFilters {
+  const filters: PageSearchFilters = { query };
+
+  if (params?.spaceKey != null && String(params.spaceKey).trim()) filters.spaceKey = spaceKeyValue(String(params.spaceKey));
+
+  const labels = stringList('labels', params?.labels);
+  for (const label of labels) {
+    if (/\s/.test(label)) throw new CqlError('labels', `Labels cannot contain whitespace: "${label}"`);
+  }
+  if (labels.length) filters.labels = labels;
+
+  for (const field of ['contributor', 'creator'] as const) {
+    const v = params?.[field];
+    if (v != null && String(v).trim()) filters[field] = String(v).trim();
+  }
+
+  const ancestor = params?.ancestorId ?? params?.ancestor;
+  if (ancestor != null && String(ancestor).trim()) {
+    const id = String(ancestor).trim();
+    if (!/^\d+$/.test(id)) throw new CqlError('ancestorId', `ancestorId must be a numeric page id; got "${id}"`);
+    filters.ancestorId = id;
+  }
+
+  for (const field of ['modifiedAfter', 'modifiedBefore'] as const) {
+    const v = params?.[field];
+    if (v != null && String(v).trim()) {
+      dateValue(field, String(v));
+      filters[field] = String(v).trim();
+    }
+  }
+
+  const types = stringList('types', params?.types).map((t) => t.toLowerCase());
+  for (const t of types) {
+    if (!(CONTENT_TYPES as readonly string[]).includes(t)) {
+      throw new CqlError('types', `Unsupported content type "${t}"; expected one of ${CONTENT_TYPES.join(', ')}`);
+    }
+  }
+  if (types.length) filters.types = [...new Set(types)] as ContentType[];
+
+  if (params?.titleOnly != null) filters.titleOnly = params.titleOnly === true || params.titleOnly === 'true';
+
+  if (params?.sort != null && String(params.sort).trim()) {
+    const sort = String(params.sort).trim();
+    if (!(SORT_FIELDS as readonly string[]).includes(sort)) {
+      throw new CqlError('sort', `Unsupported sort "${sort}"; expected one of ${SORT_FIELDS.join(', ')}`);
+    }
+    filters.sort = sort as SortField;
+  }
+  if (params?.sortDirection != null && String(params.sortDirection).trim()) {
+    const dir = String(params.sortDirection).trim().toLowerCase();
+    if (dir !== 'asc' && dir !== 'desc') throw new CqlError('sortDirection', `sortDirection must be "asc" or "desc"; got "${dir}"`);
+    filters.sortDirection = dir;
+  }
+
+  return filters;
+}
+
+export function buildPageSearchCql(filters: PageSearchFilters): string {
+  const clauses: string[] = [];
+  const types = filters.types?.length ? filters.types : ['page'];
+  clauses.push(types.length === 1 ? `type = ${types[0]}` : `type in (${types.join(', ')})`);
+
+  if (filters.query) clauses.push(`${filters.titleOnly ? 'title' : 'text'} ~ ${quote(filters.query)}`);
+  if (filters.spaceKey) clauses.push(`space = ${quote(spaceKeyValue(filters.spaceKey))}`);
+  if (filters.labels?.length) clauses.push(inList('label', filters.labels));
+  if (filters.contributor) clauses.push(`contributor = ${quote(filters.contributor)}`);
+  if (filters.creator) clauses.push(`creator = ${quote(filters.creator)}`);
+  if (filters.ancestorId) clauses.push(`ancestor = ${filters.ancestorId}`);
+  if (filters.modifiedAfter) clauses.push(`lastmodified >= ${dateValue('modifiedAfter', filters.modifiedAfter)}`);
+  if (filters.modifiedBefore) clauses.push(`lastmodified <= ${dateValue('modifiedBefore', filters.modifiedBefore)}`);
+
+  let cql = clauses.join(' and ');
+  if (filters.sort && filters.sort !== 'relevance') {
+    const defaultDir = filters.sort === 'title' ? 'asc' : 'desc';
+    cql += ` order by ${SORT_COLUMNS[filters.sort]} ${filters.sortDirection ?? defaultDir}`;
+  }
+  return cql;
+}
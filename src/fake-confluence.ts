@@ -0,0 +1,948 @@
+import { readFileSync } from 'fs';
+import type { AtlassianBackend } from './backend.js';
+import { logger } from './logger.js';
+import { markdownToStorage } from './markdown.js';
+
+/*
+ * In-memory Confluence for offline runs (ATLASSIAN_BACKEND=fake). It behaves
+ * like Cloud, or like Data Center with "flavor": "datacenter" in the fixtures:
+ * display-style web links and search paged by start offset only.
+ *
+ * It answers the REST v1 endpoints the tools use, on any host and below any
+ * context path (/wiki on Cloud):
+ *   GET  /wiki/rest/api/search                 CQL subset, cursor and start/limit paging
+ *   GET  /wiki/rest/api/content/{id}           page with space, version, body, ancestors, labels
+ *   GET  /wiki/rest/api/content/{id}/child/page
+ *   GET  /wiki/rest/api/space, /space/{key}
+ *   POST /wiki/rest/api/content                new page or comment
+ *   PUT  /wiki/rest/api/content/{id}           new version (must be current + 1, else 409)
+ *   POST /wiki/rest/api/content/{id}/label
+ *
+ * and, at the site root, the Jira endpoints the Jira tools read:
+ *   GET  /rest/api/3/search/jql                JQL subset, nextPageToken paging (Cloud)
+ *   GET  /rest/api/2/search                    the same, startAt paging (Data Center)
+ *   GET  /rest/api/2/issue/{key}               issue with rendered description, comments and links
+ *   GET  /rest/api/2/issue/{key}/transitions
+ *
+ * The CQL subset covers and/or/not, parentheses and the fields the query
+ * builder emits (type, text, title, space, label, creator, contributor,
+ * ancestor, parent, id, lastmodified, created) with =, !=, ~, !~, in, not in,
+ * <, <=, >, >= and now("-7d"), plus "order by". Anything else is a 400, as
+ * the real site would answer. The JQL subset is clauses joined by "and" on
+ * project, key, status, assignee, reporter, issuetype, priority, labels,
+ * summary and text with =, !=, ~ and in, plus "order by" key, created or
+ * updated.
+ *
+ * Fixture file (FAKE_CONFLUENCE_FIXTURES):
+ *   {
+ *     "flavor": "cloud",
+ *     "spaces": [{ "key": "ENG", "name": "Engineering", "homepageId": "1" }],
+ *     "pages": [{ "id": "1", "spaceKey": "ENG", "title": "Home", "markdown": "# Hi",
+ *                 "parentId": null, "labels": ["start"], "author": "Ada" }],
+ *     "issues": [{ "key": "ENG-1", "summary": "Fix login", "status": "To Do", "markdown": "Steps...",
+ *                  "comments": [{ "author": "Ada", "markdown": "Seen it" }],
+ *                  "links": [{ "type": "blocks", "key": "ENG-2" }],
+ *                  "transitions": [{ "id": "21", "name": "Start", "to": "In Progress" }] }],
+ *     "faults": [{ "path": "/rest/api/search", "status": 429, "retryAfter": 1, "times": 2 }]
+ *   }
+ * Pages take storage-format "body" or "markdown", as do issue descriptions
+ * ("description") and comments ("body"). Faults answer the next
+ * `times` (default 1) matching requests with `status` (default 429) before
+ * routing, which exercises retries, the circuit breaker and partial results.
+ */
+
+export interface FakeSpace {
+  key: string;
+  name?: string;
+  type?: string;
+  status?: string;
+  description?: string;
+  homepageId?: string;
+}
+
+export interface FakePage {
+  id: string;
+  spaceKey: string;
+  title: string;
+  type?: string;
+  body?: string;
+  markdown?: string;
+  parentId?: string | null;
+  labels?: string[];
+  version?: number;
+  author?: string;
+  creator?: string;
+  created?: string;
+  lastModified?: string;
+}
+
+export interface FakeComment {
+  author?: string;
+  body?: string;
+  markdown?: string;
+  created?: string;
+}
+
+export interface FakeIssue {
+  key: string;
+  summary: string;
+  status?: string;
+  statusCategory?: string;
+  issueType?: string;
+  priority?: string;
+  assignee?: string | null;
+  reporter?: string;
+  labels?: string[];
+  description?: string;
+  markdown?: string;
+  parent?: string;
+  created?: string;
+  updated?: string;
+  comments?: FakeComment[];
+  // Outward links, e.g. { "type": "blocks", "key": "ENG-2" }
+  links?: { type: string; key: string }[];
+  transitions?: { id: string; name: string; to: string; toCategory?: string }[];
+}
+
+export interface FakeFault {
+  method?: string;
+  // Path below the context path that the request path must start with, e.g. "/rest/api/search"
+  path: string;
+  status?: number;
+  retryAfter?: number;
+  times?: number;
+}
+
+export interface FakeFixtures {
+  flavor?: 'cloud' | 'datacenter';
+  spaces?: FakeSpace[];
+  pages?: FakePage[];
+  issues?: FakeIssue[];
+  faults?: FakeFault[];
+}
+
+interface StoredPage {
+  id: string;
+  spaceKey: string;
+  title: string;
+  type: string;
+  body: string;
+  parentId?: string;
+  labels: string[];
+  version: number;
+  author: string;
+  creator: string;
+  created: string;
+  lastModified: string;
+  containerId?: string;
+}
+
+interface StoredIssue extends FakeIssue {
+  id: string;
+  created: string;
+  updated: string;
+}
+
+class FakeHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_AUTHOR = 'Fake User';
+
+function json(status: number, body: any, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+function slug(title: string) {
+  return encodeURIComponent(title.replace(/\s+/g, '+')).replace(/%2B/g, '+');
+}
+
+function plainText(storage: string) {
+  return storage
+    .replace(/<\/?(?:p|h\d|li|ul|ol|tr|td|th|br|div|pre|blockquote|table)\b[^>]*>/g, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[a-z]+;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function encodeCursor(offset: number) {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(raw: string): number {
+  try {
+    const offset = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'))?.offset;
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through
+  }
+  throw new FakeHttpError(400, `Invalid cursor: ${raw}`);
+}
+
+// === CQL subset ===
+
+type Token = { kind: 'string' | 'word' | 'op' | 'punct'; value: string };
+
+const CQL_OPERATORS = ['!=', '!~', '>=', '<=', '=', '~', '>', '<'];
+
+// `prefix` starts the 400 messages, as the real sites word them
+function tokenize(cql: string, prefix = 'Could not parse cql'): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < cql.length) {
+    const ch = cql[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < cql.length && cql[i] !== ch) {
+        if (cql[i] === '\\' && i + 1 < cql.length) i++;
+        value += cql[i++];
+      }
+      if (i >= cql.length) throw new FakeHttpError(400, `${prefix}: unterminated string`);
+      i++;
+      tokens.push({ kind: 'string', value });
+    } else if ('(),'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch });
+      i++;
+    } else {
+      const op = CQL_OPERATORS.find((o) => cql.startsWith(o, i));
+      if (op) {
+        tokens.push({ kind: 'op', value: op });
+        i += op.length;
+      } else {
+        const m = cql.slice(i).match(/^[\w.-]+/);
+        if (!m) throw new FakeHttpError(400, `${prefix}: unexpected "${ch}"`);
+        tokens.push({ kind: 'word', value: m[0] });
+        i += m[0].length;
+      }
+    }
+  }
+  return tokens;
+}
+
+type Predicate = (page: StoredPage) => boolean;
+
+interface ParsedCql {
+  where: Predicate;
+  orderBy?: { field: string; desc: boolean };
+}
+
+// Relative offsets as in now("-7d"). As in CQL, "m" is minutes and "M" months;
+// months and years are calendar-approximate
+const OFFSET_HOURS: Record<string, number> = { m: 1 / 60, h: 1, d: 24, w: 24 * 7, M: 24 * 30, y: 24 * 365 };
+
+function relativeDate(offset: string): number {
+  const m = offset.trim().match(/^([+-]?)(\d+)([mM]|[hdwy])$/i);
+  if (!m) throw new FakeHttpError(400, `Could not parse cql: bad now() offset "${offset}"`);
+  const hours = OFFSET_HOURS[/m/i.test(m[3]) ? m[3] : m[3].toLowerCase()];
+  return Date.now() + (m[1] === '-' ? -1 : 1) * Number(m[2]) * hours * 3_600_000;
+}
+
+function dateOf(value: string): number {
+  const t = Date.parse(value.includes('T') || !value.includes(' ') ? value : value.replace(' ', 'T') + 'Z');
+  if (Number.isNaN(t)) throw new FakeHttpError(400, `Could not parse cql: bad date "${value}"`);
+  return t;
+}
+
+function compare(op: string, a: number | string, b: number | string): boolean {
+  switch (op) {
+    case '=':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      throw new FakeHttpError(400, `Could not parse cql: operator ${op} is not supported here`);
+  }
+}
+
+function containsWords(haystack: string, needle: string) {
+  const text = haystack.toLowerCase();
+  return needle.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word.replace(/\*$/, '')));
+}
+
+class CqlParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private store: FakeConfluence) {}
+
+  parse(): ParsedCql {
+    const where = this.tokens.length && !this.isWord('order') ? this.or() : () => true;
+    let orderBy: ParsedCql['orderBy'];
+    if (this.isWord('order')) {
+      this.pos++;
+      this.expectWord('by');
+      const field = this.next('word').value.toLowerCase();
+      if (!['title', 'lastmodified', 'created', 'id'].includes(field)) {
+        throw new FakeHttpError(400, `Could not parse cql: cannot order by ${field}`);
+      }
+      let desc = false;
+      if (this.isWord('asc') || this.isWord('desc')) desc = this.next('word').value.toLowerCase() === 'desc';
+      orderBy = { field, desc };
+    }
+    if (this.pos < this.tokens.length) throw new FakeHttpError(400, `Could not parse cql: unexpected "${this.tokens[this.pos].value}"`);
+    return { where, orderBy };
+  }
+
+  private peek() {
+    return this.tokens[this.pos];
+  }
+
+  private isWord(word: string) {
+    const t = this.peek();
+    return t?.kind === 'word' && t.value.toLowerCase() === word;
+  }
+
+  private next(kind?: Token['kind']): Token {
+    const t = this.tokens[this.pos++];
+    if (!t || (kind && t.kind !== kind)) throw new FakeHttpError(400, `Could not parse cql: unexpected ${t ? `"${t.value}"` : 'end of query'}`);
+    return t;
+  }
+
+  private expectWord(word: string) {
+    if (!this.isWord(word)) throw new FakeHttpError(400, `Could not parse cql: expected "${word}"`);
+    this.pos++;
+  }
+
+  private or(): Predicate {
+    const parts = [this.and()];
+    while (this.isWord('or')) {
+      this.pos++;
+      parts.push(this.and());
+    }
+    return parts.length === 1 ? parts[0] : (p) => parts.some((f) => f(p));
+  }
+
+  private and(): Predicate {
+    const parts = [this.unary()];
+    while (this.isWord('and')) {
+      this.pos++;
+      parts.push(this.unary());
+    }
+    return parts.length === 1 ? parts[0] : (p) => parts.every((f) => f(p));
+  }
+
+  private unary(): Predicate {
+    if (this.isWord('not')) {
+      this.pos++;
+      const inner = this.unary();
+      return (p) => !inner(p);
+    }
+    if (this.peek()?.value === '(' && this.peek()?.kind === 'punct') {
+      this.pos++;
+      const inner = this.or();
+      if (this.next('punct').value !== ')') throw new FakeHttpError(400, 'Could not parse cql: expected ")"');
+      return inner;
+    }
+    return this.clause();
+  }
+
+  private value(): string {
+    const t = this.next();
+    if (t.kind === 'string') return t.value;
+    if (t.kind !== 'word') throw new FakeHttpError(400, `Could not parse cql: unexpected "${t.value}"`);
+    if (t.value.toLowerCase() === 'now' && this.peek()?.value === '(') {
+      this.pos++;
+      const offset = this.peek()?.kind === 'string' ? this.next().value : '0d';
+      if (this.next('punct').value !== ')') throw new FakeHttpError(400, 'Could not parse cql: expected ")"');
+      return new Date(relativeDate(offset)).toISOString();
+    }
+    return t.value;
+  }
+
+  private clause(): Predicate {
+    const field = this.next('word').value.toLowerCase();
+    let op: string;
+    let values: string[];
+    if (this.isWord('in') || this.isWord('not')) {
+      op = this.next().value.toLowerCase() === 'not' ? (this.expectWord('in'), 'not in') : 'in';
+      if (this.next('punct').value !== '(') throw new FakeHttpError(400, 'Could not parse cql: expected "("');
+      values = [this.value()];
+      while (this.peek()?.value === ',') {
+        this.pos++;
+        values.push(this.value());
+      }
+      if (this.next('punct').value !== ')') throw new FakeHttpError(400, 'Could not parse cql: expected ")"');
+    } else {
+      op = this.next('op').value;
+      values = [this.value()];
+    }
+    const test = this.fieldTest(field, op === 'in' || op === 'not in' ? '=' : op);
+    if (op === 'in') return (p) => values.some((v) => test(p, v));
+    if (op === 'not in') return (p) => !values.some((v) => test(p, v));
+    return (p) => test(p, values[0]);
+  }
+
+  private fieldTest(field: string, op: string): (page: StoredPage, value: string) => boolean {
+    const exact = (get: (p: StoredPage) => string | string[] | undefined) => (p: StoredPage, v: string) => {
+      const actual = get(p);
+      const matches = Array.isArray(actual) ? actual.includes(v) : actual === v;
+      if (op === '=') return matches;
+      if (op === '!=') return !matches;
+      throw new FakeHttpError(400, `Could not parse cql: operator ${op} is not supported for ${field}`);
+    };
+    const dated = (get: (p: StoredPage) => string) => (p: StoredPage, v: string) => compare(op, dateOf(get(p)), dateOf(v));
+
+    switch (field) {
+      case 'type':
+        return exact((p) => p.type);
+      case 'id':
+      case 'content':
+        return exact((p) => p.id);
+      case 'space':
+      case 'space.key':
+        return exact((p) => p.spaceKey);
+      case 'label':
+        return exact((p) => p.labels);
+      case 'creator':
+        return exact((p) => p.creator);
+      case 'contributor':
+        return exact((p) => [p.creator, p.author]);
+      case 'parent':
+        return exact((p) => p.parentId);
+      case 'ancestor':
+        return exact((p) => this.store.ancestorsOf(p).map((a) => a.id));
+      case 'lastmodified':
+        return dated((p) => p.lastModified);
+      case 'created':
+        return dated((p) => p.created);
+      case 'title':
+      case 'text': {
+        const haystack = field === 'title'
+          ? (p: StoredPage) => p.title
+          : (p: StoredPage) => `${p.title} ${plainText(p.body)} ${p.labels.join(' ')}`;
+        if (op === '~') return (p, v) => containsWords(haystack(p), v);
+        if (op === '!~') return (p, v) => !containsWords(haystack(p), v);
+        if (field === 'title') return exact((p) => p.title);
+        break;
+      }
+    }
+    throw new FakeHttpError(400, `Could not parse cql: field "${field}" with ${op} is not supported`);
+  }
+}
+
+// === JQL subset ===
+
+const JQL_ERROR = 'Error in the JQL Query';
+
+const JQL_FIELDS: Record<string, (issue: StoredIssue) => string | string[] | null | undefined> = {
+  project: (i) => i.key.split('-')[0],
+  key: (i) => i.key,
+  issuekey: (i) => i.key,
+  status: (i) => i.status,
+  assignee: (i) => i.assignee,
+  reporter: (i) => i.reporter,
+  issuetype: (i) => i.issueType,
+  type: (i) => i.issueType,
+  priority: (i) => i.priority,
+  labels: (i) => i.labels,
+  summary: (i) => i.summary,
+  text: (i) => `${i.summary} ${plainText(i.description || '')} ${(i.comments || []).map((c) => plainText(c.body || '')).join(' ')}`,
+};
+
+function parseJql(jql: string): { where: (issue: StoredIssue) => boolean; orderBy?: { field: string; desc: boolean } } {
+  const tokens = tokenize(jql, JQL_ERROR);
+  let pos = 0;
+  const peekWord = (word: string) => tokens[pos]?.kind === 'word' && tokens[pos].value.toLowerCase() === word;
+  const next = () => {
+    const t = tokens[pos++];
+    if (!t) throw new FakeHttpError(400, `${JQL_ERROR}: unexpected end of query`);
+    return t;
+  };
+
+  const clauses: ((issue: StoredIssue) => boolean)[] = [];
+  while (pos < tokens.length && !peekWord('order')) {
+    if (clauses.length) {
+      if (!peekWord('and')) throw new FakeHttpError(400, `${JQL_ERROR}: expected "and" before "${tokens[pos].value}"`);
+      pos++;
+    }
+    const field = next().value.toLowerCase();
+    const get = JQL_FIELDS[field];
+    if (!get) throw new FakeHttpError(400, `${JQL_ERROR}: field '${field}' does not exist or you do not have permission to view it`);
+    const op = next().value.toLowerCase();
+    let values: string[];
+    if (op === 'in') {
+      if (next().value !== '(') throw new FakeHttpError(400, `${JQL_ERROR}: expected "("`);
+      values = [next().value];
+      while (tokens[pos]?.value === ',') {
+        pos++;
+        values.push(next().value);
+      }
+      if (next().value !== ')') throw new FakeHttpError(400, `${JQL_ERROR}: expected ")"`);
+    } else if (['=', '!=', '~'].includes(op)) {
+      values = [next().value];
+    } else {
+      throw new FakeHttpError(400, `${JQL_ERROR}: operator '${op}' is not supported here`);
+    }
+    const matches = (issue: StoredIssue, v: string) => {
+      const actual = get(issue);
+      if (op === '~') return containsWords(Array.isArray(actual) ? actual.join(' ') : actual || '', v);
+      return (Array.isArray(actual) ? actual : [actual]).some((a) => String(a ?? '').toLowerCase() === v.toLowerCase());
+    };
+    clauses.push(op === '!=' ? (i) => !matches(i, values[0]) : (i) => values.some((v) => matches(i, v)));
+  }
+
+  let orderBy: { field: string; desc: boolean } | undefined;
+  if (peekWord('order')) {
+    pos++;
+    if (!peekWord('by')) throw new FakeHttpError(400, `${JQL_ERROR}: expected "by"`);
+    pos++;
+    const field = next().value.toLowerCase();
+    if (!['key', 'created', 'updated'].includes(field)) throw new FakeHttpError(400, `${JQL_ERROR}: cannot order by ${field}`);
+    orderBy = { field, desc: peekWord('desc') };
+    if (peekWord('asc') || peekWord('desc')) pos++;
+  }
+  if (pos < tokens.length) throw new FakeHttpError(400, `${JQL_ERROR}: unexpected "${tokens[pos].value}"`);
+  return { where: (issue) => clauses.every((c) => c(issue)), orderBy };
+}
+
+// === Fake site ===
+
+export class FakeConfluence implements AtlassianBackend {
+  readonly name = 'fake';
+  private spaces = new Map<string, FakeSpace>();
+  private pages = new Map<string, StoredPage>();
+  private issues = new Map<string, StoredIssue>();
+  private faults: FakeFault[] = [];
+  private nextId = 1;
+  private datacenter: boolean;
+
+  constructor(fixtures: FakeFixtures = {}) {
+    const now = new Date().toISOString();
+    this.datacenter = fixtures.flavor === 'datacenter';
+    for (const s of fixtures.spaces || []) {
+      if (!s?.key) throw new Error('Fake Confluence space without a key');
+      this.spaces.set(s.key, s);
+    }
+    for (const p of fixtures.pages || []) {
+      if (!p?.id || !p?.spaceKey || !p?.title) throw new Error(`Fake Confluence page needs id, spaceKey and title: ${JSON.stringify(p)}`);
+      if (!this.spaces.has(p.spaceKey)) this.spaces.set(p.spaceKey, { key: p.spaceKey });
+      const author = p.author || p.creator || DEFAULT_AUTHOR;
+      this.pages.set(String(p.id), {
+        id: String(p.id),
+        spaceKey: p.spaceKey,
+        title: p.title,
+        type: p.type || 'page',
+        body: p.body ?? (p.markdown ? markdownToStorage(p.markdown) : ''),
+        parentId: p.parentId ? String(p.parentId) : undefined,
+        labels: p.labels || [],
+        version: p.version || 1,
+        author,
+        creator: p.creator || author,
+        created: p.created || p.lastModified || now,
+        lastModified: p.lastModified || p.created || now,
+      });
+    }
+    for (const [i, issue] of (fixtures.issues || []).entries()) {
+      if (!issue?.key || !issue?.summary) throw new Error(`Fake Jira issue needs key and summary: ${JSON.stringify(issue)}`);
+      this.issues.set(issue.key.toUpperCase(), {
+        ...issue,
+        key: issue.key.toUpperCase(),
+        id: String(10001 + i),
+        description: issue.description ?? (issue.markdown ? markdownToStorage(issue.markdown) : ''),
+        comments: (issue.comments || []).map((c) => ({ ...c, body: c.body ?? (c.markdown ? markdownToStorage(c.markdown) : '') })),
+        created: issue.created || issue.updated || now,
+        updated: issue.updated || issue.created || now,
+      });
+    }
+    for (const fault of fixtures.faults || []) this.injectFault(fault);
+    this.nextId = Math.max(0, ...[...this.pages.keys()].map(Number).filter(Number.isFinite)) + 1;
+  }
+
+  // Answer the next `times` requests matching method and path with an error status (default: one 429)
+  injectFault(fault: FakeFault) {
+    this.faults.push({ ...fault, times: fault.times ?? 1 });
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const u = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    const context = u.pathname.match(/^(.*?)(?=\/rest\/)/)?.[1] || '';
+    const path = u.pathname.slice(context.length);
+
+    const fault = this.faults.find((f) => f.times! > 0 && path.startsWith(f.path) && (!f.method || f.method.toUpperCase() === method));
+    if (fault) {
+      fault.times!--;
+      const status = fault.status ?? 429;
+      logger.debug('Fake Confluence injected fault', { method, path, status });
+      return json(status, { statusCode: status, message: status === 429 ? 'Rate limit exceeded' : 'Injected failure' },
+        fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : {});
+    }
+
+    if (!new Headers(init.headers).get('Authorization')) return json(401, { statusCode: 401, message: 'Unauthorized' });
+
+    try {
+      const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+      return json(200, this.route(method, path, u.searchParams, body, u.origin + context));
+    } catch (error: any) {
+      const status = error instanceof FakeHttpError ? error.status : 500;
+      if (status === 500) logger.error('Fake Confluence failed', { method, path, err: error });
+      return json(status, { statusCode: status, message: error?.message || 'Internal error' });
+    }
+  }
+
+  ancestorsOf(page: StoredPage): StoredPage[] {
+    const chain: StoredPage[] = [];
+    const seen = new Set([page.id]);
+    for (let p = page.parentId ? this.pages.get(page.parentId) : undefined; p && !seen.has(p.id); p = p.parentId ? this.pages.get(p.parentId) : undefined) {
+      seen.add(p.id);
+      chain.unshift(p);
+    }
+    return chain;
+  }
+
+  private route(method: string, path: string, qs: URLSearchParams, body: any, base: string) {
+    let m: RegExpMatchArray | null;
+    if (method === 'GET' && path === '/rest/api/search') return this.search(qs, base);
+    if (method === 'GET' && path === '/rest/api/space') return this.listSpaces(qs);
+    if (method === 'GET' && (m = path.match(/^\/rest\/api\/space\/([^/]+)$/))) return this.spaceJson(this.requireSpace(decodeURIComponent(m[1])));
+    if (method === 'GET' && (m = path.match(/^\/rest\/api\/content\/(\d+)\/child\/page$/))) return this.children(this.requirePage(m[1]), qs);
+    if (method === 'GET' && (m = path.match(/^\/rest\/api\/content\/(\d+)$/))) return this.pageJson(this.requirePage(m[1]), true);
+    if (method === 'POST' && path === '/rest/api/content') return this.create(body);
+    if (method === 'PUT' && (m = path.match(/^\/rest\/api\/content\/(\d+)$/))) return this.update(this.requirePage(m[1]), body);
+    if (method === 'POST' && (m = path.match(/^\/rest\/api\/content\/(\d+)\/label$/))) return this.addLabels(this.requirePage(m[1]), body);
+    if (method === 'GET' && path === '/rest/api/3/search/jql') return this.searchIssues(qs, false);
+    if (method === 'GET' && path === '/rest/api/2/search') return this.searchIssues(qs, true);
+    if (method === 'GET' && (m = path.match(/^\/rest\/api\/2\/issue\/([^/]+)\/transitions$/))) return this.transitions(this.requireIssue(decodeURIComponent(m[1])));
+    if (method === 'GET' && (m = path.match(/^\/rest\/api\/2\/issue\/([^/]+)$/))) return this.issueJson(this.requireIssue(decodeURIComponent(m[1])));
+    throw new FakeHttpError(404, `No fake route for ${method} ${path}`);
+  }
+
+  private requirePage(id: string) {
+    const page = this.pages.get(id);
+    if (!page || page.type === 'comment') throw new FakeHttpError(404, `No content found with id: ${id}`);
+    return page;
+  }
+
+  private requireIssue(keyOrId: string) {
+    const issue = this.issues.get(keyOrId.toUpperCase()) || [...this.issues.values()].find((i) => i.id === keyOrId);
+    if (!issue) throw new FakeHttpError(404, 'Issue does not exist or you do not have permission to see it.');
+    return issue;
+  }
+
+  private requireSpace(key: string) {
+    const space = this.spaces.get(key);
+    if (!space) throw new FakeHttpError(404, `No space with key : ${key}`);
+    return space;
+  }
+
+  private homepageOf(space: FakeSpace) {
+    if (space.homepageId && this.pages.has(space.homepageId)) return this.pages.get(space.homepageId);
+    return [...this.pages.values()].find((p) => p.spaceKey === space.key && p.type === 'page' && !p.parentId);
+  }
+
+  private spaceJson(space: FakeSpace) {
+    const home = this.homepageOf(space);
+    return {
+      id: space.key,
+      key: space.key,
+      name: space.name || space.key,
+      type: space.type || 'global',
+      status: space.status || 'current',
+      description: { plain: { value: space.description || '', representation: 'plain' } },
+      ...(home ? { homepage: { id: home.id, title: home.title } } : {}),
+      _links: { webui: this.spaceWebui(space.key) },
+    };
+  }
+
+  private spaceWebui(key: string) {
+    return this.datacenter ? `/display/${key}` : `/spaces/${key}`;
+  }
+
+  private pageJson(page: StoredPage, full = false): any {
+    const space = this.spaces.get(page.spaceKey);
+    const base = {
+      id: page.id,
+      type: page.type,
+      status: 'current',
+      title: page.title,
+      _links: {
+        webui: this.datacenter ? `/pages/viewpage.action?pageId=${page.id}` : `/spaces/${page.spaceKey}/pages/${page.id}/${slug(page.title)}`,
+      },
+    };
+    if (!full) return base;
+    return {
+      ...base,
+      space: this.spaceRef(page),
+      version: { number: page.version, when: page.lastModified, by: { displayName: page.author } },
+      history: {
+        createdBy: { displayName: page.creator },
+        createdDate: page.created,
+        lastUpdated: { when: page.lastModified, by: { displayName: page.author } },
+      },
+      body: { storage: { value: page.body, representation: 'storage' } },
+      // As if expanded with ancestors.space and ancestors.metadata.labels
+      ancestors: this.ancestorsOf(page).map((a) => ({ ...this.pageJson(a), space: this.spaceRef(a), metadata: this.labelsJson(a) })),
+      metadata: this.labelsJson(page),
+    };
+  }
+
+  private spaceRef(page: StoredPage) {
+    const space = this.spaces.get(page.spaceKey);
+    return { key: page.spaceKey, name: space?.name || page.spaceKey, _links: { webui: this.spaceWebui(page.spaceKey) } };
+  }
+
+  private labelsJson(page: StoredPage) {
+    return { labels: { results: page.labels.map((name) => ({ prefix: 'global', name })) } };
+  }
+
+  private paging(qs: URLSearchParams, defaultLimit = 25) {
+    const limit = Math.min(Math.max(Number(qs.get('limit')) || defaultLimit, 1), 250);
+    // Data Center ignores cursors
+    const cursor = this.datacenter ? null : qs.get('cursor');
+    const start = cursor ? decodeCursor(cursor) : Math.max(Number(qs.get('start')) || 0, 0);
+    return { start, limit };
+  }
+
+  // Build a next link that repeats the request's own query with a new position
+  private nextLink(path: string, qs: URLSearchParams, param: 'start' | 'cursor', position: number) {
+    const next = new URLSearchParams(qs);
+    next.delete('start');
+    next.delete('cursor');
+    next.set(param, param === 'cursor' ? encodeCursor(position) : String(position));
+    return `${path}?${next.toString()}`;
+  }
+
+  private search(qs: URLSearchParams, base: string) {
+    const cql = qs.get('cql') || '';
+    const expand = (qs.get('expand') || '').split(',');
+    const { where, orderBy } = new CqlParser(tokenize(cql), this).parse();
+    // Comments are found like any other content; the tools' CQL always names the types it wants
+    let matches = [...this.pages.values()].filter(where);
+    if (orderBy) {
+      const key = (p: StoredPage) => (orderBy.field === 'lastmodified' ? p.lastModified : orderBy.field === 'created' ? p.created : orderBy.field === 'id' ? p.id.padStart(20, '0') : p.title.toLowerCase());
+      matches = matches.sort((a, b) => key(a).localeCompare(key(b)) * (orderBy.desc ? -1 : 1));
+    }
+    const { start, limit } = this.paging(qs);
+    const slice = matches.slice(start, start + limit);
+    const end = start + slice.length;
+    const paging = this.datacenter ? 'start' : 'cursor';
+    return {
+      results: slice.map((p) => {
+        // Search results carry the expandable parts of the content; the body only when asked for
+        const { body, ancestors, ...page } = this.pageJson(p, true);
+        if (expand.includes('content.body.storage')) page.body = body;
+        const space = this.spaces.get(p.spaceKey);
+        return {
+          content: page,
+          title: p.title,
+          excerpt: plainText(p.body).slice(0, 200),
+          url: page._links.webui,
+          resultGlobalContainer: { title: space?.name || p.spaceKey, displayUrl: this.spaceWebui(p.spaceKey) },
+          lastModified: p.lastModified,
+          entityType: 'content',
+        };
+      }),
+      start,
+      limit,
+      size: slice.length,
+      totalSize: matches.length,
+      cqlQuery: cql,
+      _links: {
+        base,
+        ...(end < matches.length ? { next: this.nextLink('/rest/api/search', qs, paging, end) } : {}),
+        ...(start > 0 ? { prev: this.nextLink('/rest/api/search', qs, paging, Math.max(start - limit, 0)) } : {}),
+      },
+    };
+  }
+
+  private listSpaces(qs: URLSearchParams) {
+    const keys = qs.getAll('spaceKey');
+    const type = qs.get('type');
+    const status = qs.get('status');
+    const all = [...this.spaces.values()].filter((s) =>
+      (!keys.length || keys.includes(s.key)) && (!type || (s.type || 'global') === type) && (!status || (s.status || 'current') === status),
+    );
+    const { start, limit } = this.paging(qs);
+    const slice = all.slice(start, start + limit);
+    return {
+      results: slice.map((s) => this.spaceJson(s)),
+      start,
+      limit,
+      size: slice.length,
+      _links: start + slice.length < all.length ? { next: this.nextLink('/rest/api/space', qs, 'start', start + slice.length) } : {},
+    };
+  }
+
+  private children(parent: StoredPage, qs: URLSearchParams) {
+    const all = [...this.pages.values()].filter((p) => p.parentId === parent.id && p.type === 'page');
+    const { start, limit } = this.paging(qs);
+    const slice = all.slice(start, start + limit);
+    const expand = (qs.get('expand') || '').split(',');
+    return {
+      results: slice.map((p) => {
+        const full = this.pageJson(p, true);
+        return {
+          ...this.pageJson(p),
+          ...(expand.includes('space') ? { space: full.space } : {}),
+          ...(expand.includes('metadata.labels') ? { metadata: full.metadata } : {}),
+        };
+      }),
+      start,
+      limit,
+      size: slice.length,
+      _links: start + slice.length < all.length
+        ? { next: this.nextLink(`/rest/api/content/${parent.id}/child/page`, qs, 'start', start + slice.length) }
+        : {},
+    };
+  }
+
+  private create(body: any) {
+    const now = new Date().toISOString();
+    const value = String(body?.body?.storage?.value ?? '');
+
+    if (body?.type === 'comment') {
+      const container = this.requirePage(String(body?.container?.id ?? ''));
+      const id = String(this.nextId++);
+      const comment: StoredPage = {
+        id, spaceKey: container.spaceKey, title: `Re: ${container.title}`, type: 'comment', body: value, labels: [], version: 1,
+        author: DEFAULT_AUTHOR, creator: DEFAULT_AUTHOR, created: now, lastModified: now, containerId: container.id,
+      };
+      this.pages.set(id, comment);
+      const webui = this.datacenter
+        ? `/pages/viewpage.action?pageId=${container.id}&focusedCommentId=${id}`
+        : `/spaces/${container.spaceKey}/pages/${container.id}?focusedCommentId=${id}`;
+      return { id, type: 'comment', title: comment.title, _links: { webui } };
+    }
+
+    const spaceKey = String(body?.space?.key ?? '');
+    const title = String(body?.title ?? '').trim();
+    if (!this.spaces.has(spaceKey)) throw new FakeHttpError(404, `No space with key : ${spaceKey}`);
+    if (!title) throw new FakeHttpError(400, 'Title is required');
+    if ([...this.pages.values()].some((p) => p.spaceKey === spaceKey && p.type !== 'comment' && p.title === title)) {
+      throw new FakeHttpError(400, `A page with this title already exists: A page already exists with the same TITLE in this space`);
+    }
+    const parentId = body?.ancestors?.[0]?.id ? String(body.ancestors[0].id) : undefined;
+    if (parentId) this.requirePage(parentId);
+    const id = String(this.nextId++);
+    const page: StoredPage = {
+      id, spaceKey, title, type: body?.type || 'page', body: value, parentId, labels: [], version: 1,
+      author: DEFAULT_AUTHOR, creator: DEFAULT_AUTHOR, created: now, lastModified: now,
+    };
+    this.pages.set(id, page);
+    return this.pageJson(page, true);
+  }
+
+  private update(page: StoredPage, body: any) {
+    const next = Number(body?.version?.number);
+    if (next !== page.version + 1) {
+      throw new FakeHttpError(409, `Version must be incremented on update. Current version is: ${page.version}`);
+    }
+    page.version = next;
+    page.title = String(body?.title || page.title);
+    if (body?.body?.storage?.value !== undefined) page.body = String(body.body.storage.value);
+    page.author = DEFAULT_AUTHOR;
+    page.lastModified = new Date().toISOString();
+    return this.pageJson(page, true);
+  }
+
+  private addLabels(page: StoredPage, body: any) {
+    for (const label of Array.isArray(body) ? body : []) {
+      const name = String(label?.name ?? '').toLowerCase();
+      if (!name || /\s/.test(name)) throw new FakeHttpError(400, `Invalid label: "${label?.name}"`);
+      if (!page.labels.includes(name)) page.labels.push(name);
+    }
+    const results = page.labels.map((name) => ({ prefix: 'global', name, id: name }));
+    return { results, start: 0, limit: results.length, size: results.length };
+  }
+
+  // === Jira ===
+
+  private issueFields(issue: StoredIssue) {
+    const user = (name?: string | null) => (name ? { displayName: name } : null);
+    return {
+      summary: issue.summary,
+      status: issue.status ? { name: issue.status, statusCategory: { name: issue.statusCategory || issue.status } } : null,
+      assignee: user(issue.assignee),
+      reporter: user(issue.reporter),
+      issuetype: issue.issueType ? { name: issue.issueType } : null,
+      priority: issue.priority ? { name: issue.priority } : null,
+      labels: issue.labels || [],
+      created: issue.created,
+      updated: issue.updated,
+      ...(issue.parent ? { parent: { key: issue.parent } } : {}),
+    };
+  }
+
+  private searchIssues(qs: URLSearchParams, offsetPaging: boolean) {
+    const { where, orderBy } = parseJql(qs.get('jql') || '');
+    let matches = [...this.issues.values()].filter(where);
+    if (orderBy) {
+      const key = (i: StoredIssue) => (orderBy.field === 'key' ? i.key : orderBy.field === 'created' ? i.created : i.updated);
+      matches = matches.sort((a, b) => key(a).localeCompare(key(b), undefined, { numeric: true }) * (orderBy.desc ? -1 : 1));
+    }
+    const limit = Math.min(Math.max(Number(qs.get('maxResults')) || 50, 1), 100);
+    const token = qs.get('nextPageToken');
+    const start = offsetPaging ? Math.max(Number(qs.get('startAt')) || 0, 0) : token ? decodeCursor(token) : 0;
+    const slice = matches.slice(start, start + limit);
+    const end = start + slice.length;
+    const issues = slice.map((i) => ({ id: i.id, key: i.key, fields: this.issueFields(i) }));
+    // Cloud's enhanced search has no total, only a token for the next page
+    if (offsetPaging) return { startAt: start, maxResults: limit, total: matches.length, issues };
+    return { issues, isLast: end >= matches.length, ...(end < matches.length ? { nextPageToken: encodeCursor(end) } : {}) };
+  }
+
+  private issueJson(issue: StoredIssue) {
+    const comments = (issue.comments || []).map((c, i) => ({
+      id: String(i + 1),
+      author: { displayName: c.author || DEFAULT_AUTHOR },
+      created: c.created || issue.updated,
+    }));
+    const issuelinks = (issue.links || []).map((link, i) => {
+      const other = this.issues.get(link.key.toUpperCase());
+      return {
+        id: String(i + 1),
+        type: { name: link.type, outward: link.type, inward: link.type },
+        outwardIssue: { key: link.key, fields: { summary: other?.summary ?? '', status: other?.status ? { name: other.status } : null } },
+      };
+    });
+    return {
+      id: issue.id,
+      key: issue.key,
+      fields: {
+        ...this.issueFields(issue),
+        description: plainText(issue.description || ''),
+        comment: { comments: comments.map((c, i) => ({ ...c, body: plainText(issue.comments![i].body || '') })), total: comments.length },
+        issuelinks,
+      },
+      renderedFields: {
+        description: issue.description || '',
+        comment: { comments: comments.map((c, i) => ({ ...c, body: issue.comments![i].body || '' })) },
+      },
+    };
+  }
+
+  private transitions(issue: StoredIssue) {
+    return {
+      transitions: (issue.transitions || []).map((t) => ({
+        id: t.id,
+        name: t.name,
+        to: { name: t.to, statusCategory: { name: t.toCategory || t.to } },
+      })),
+    };
+  }
+}
+
+export function loadFakeConfluence(file: string): FakeConfluence {
+  const fixtures: FakeFixtures = JSON.parse(readFileSync(file, 'utf8'));
+  const fake = new FakeConfluence(fixtures);
+  logger.info('Using fake Confluence backend', {
+    file,
+    spaces: fixtures.spaces?.length ?? 0,
+    pages: fixtures.pages?.length ?? 0,
+    issues: fixtures.issues?.length ?? 0,
+  });
+  return fake;
+}
@@ -0,0 +1,186 @@
+/*
+ * Output profiles: how search results are shaped for the client.
+ *
+ * - raw: structured data only (the default).
+ * - markdown: the same data plus a Markdown rendering, a numbered list or,
+ *   when optional fields are requested, a table.
+ * - compact: id, title, url and any requested fields, with short excerpts
+ *   and a single nextCursor; for clients with tight context budgets.
+ * - copilot-studio: the numbered titles, "DISPLAY ALL" banner, display
+ *   instructions and long initialize instructions that keep Copilot Studio
+ *   from truncating result lists at 10.
+ *
+ * OUTPUT_PROFILE sets the server default; a credential profile's
+ * outputProfile overrides it per connection, and the outputProfile argument
+ * overrides both per call.
+ */
+
+export const OUTPUT_PROFILES = ['raw', 'markdown', 'compact', 'copilot-studio'] as const;
+export type OutputProfile = (typeof OUTPUT_PROFILES)[number];
+
+// Optional per-result fields; off unless requested so results stay small
+export const RESULT_FIELDS = ['excerpt', 'lastModified', 'space', 'author'] as const;
+export type ResultField = (typeof RESULT_FIELDS)[number];
+
+export function isOutputProfile(value: unknown): value is OutputProfile {
+  return typeof value === 'string' && (OUTPUT_PROFILES as readonly string[]).includes(value);
+}
+
+const configuredDefault = (process.env.OUTPUT_PROFILE || '').trim().toLowerCase();
+export const DEFAULT_OUTPUT_PROFILE: OutputProfile = isOutputProfile(configuredDefault) ? configuredDefault : 'raw';
+
+const COMPACT_EXCERPT_CHARS = 160;
+
+export interface SearchHit {
+  id: string;
+  title: string;
+  url: string;
+  excerpt?: string;
+  lastModified?: string;
+  spaceKey?: string;
+  spaceName?: string;
+  author?: string;
+  // Only used for the access policy check, never returned
+  labels?: string[];
+}
+
+export interface SearchPagination {
+  start: number | null;
+  limit: number;
+  size: number;
+  totalSize?: number;
+  nextCursor?: string;
+  prevCursor?: string;
+  nextUrl?: string;
+  prevUrl?: string;
+}
+
+export interface SearchOutcome {
+  query: string;
+  cql: string;
+  hits: SearchHit[];
+  totalAvailable: number;
+  pagination: SearchPagination;
+  fields: ResultField[];
+  // Set when an access policy is configured
+  filteredByPolicy?: { count: number; reasons: Record<string, number> };
+  // Set when a later page failed
+  warning?: string;
+  resumeCursor?: string;
+}
+
+// The Confluence search expand parameters needed for the requested fields
+export function searchExpand(fields: ResultField[]): string[] {
+  const expand: string[] = [];
+  if (fields.includes('space')) expand.push('content.space');
+  if (fields.includes('author')) expand.push('content.history');
+  if (fields.includes('lastModified')) expand.push('content.version');
+  return expand;
+}
+
+// Strip the @@@hl@@@ highlight markers Confluence puts around matched terms
+export function cleanExcerpt(excerpt: unknown): string {
+  return typeof excerpt === 'string'
+    ? excerpt.replace(/@@@(?:end)?hl@@@/g, '').replace(/\s+/g, ' ').trim()
+    : '';
+}
+
+function truncate(text: string, max: number) {
+  return text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text;
+}
+
+// Keep only the requested optional fields of a hit
+function pick(hit: SearchHit, fields: ResultField[], excerptChars?: number) {
+  const out: Record<string, string> = { id: hit.id, title: hit.title, url: hit.url };
+  if (fields.includes('excerpt') && hit.excerpt) out.excerpt = excerptChars ? truncate(hit.excerpt, excerptChars) : hit.excerpt;
+  if (fields.includes('lastModified') && hit.lastModified) out.lastModified = hit.lastModified;
+  if (fields.includes('space') && hit.spaceKey) {
+    out.spaceKey = hit.spaceKey;
+    if (hit.spaceName) out.spaceName = hit.spaceName;
+  }
+  if (fields.includes('author') && hit.author) out.author = hit.author;
+  return out;
+}
+
+function cell(text: string | undefined) {
+  return (text || '').replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+}
+
+function markdownLink(hit: SearchHit) {
+  const title = hit.title.replace(/([[\]])/g, '\\$1');
+  return hit.url ? `[${title}](${hit.url})` : title;
+}
+
+// A numbered list, or a table when there are extra columns to show
+export function searchResultsMarkdown(hits: SearchHit[], fields: ResultField[]): string {
+  if (!hits.length) return '_No results._';
+  if (!fields.length) return hits.map((h, i) => `${i + 1}. ${markdownLink(h)}`).join('\n');
+
+  const columns: [string, (h: SearchHit) => string | undefined][] = [['Title', markdownLink]];
+  if (fields.includes('space')) columns.push(['Space', (h) => h.spaceName || h.spaceKey]);
+  if (fields.includes('lastModified')) columns.push(['Last modified', (h) => h.lastModified?.slice(0, 10)]);
+  if (fields.includes('author')) columns.push(['Author', (h) => h.author]);
+  if (fields.includes('excerpt')) columns.push(['Excerpt', (h) => h.excerpt]);
+  return [
+    `| # | ${columns.map(([name]) => name).join(' | ')} |`,
+    `|---|${columns.map(() => '---').join('|')}|`,
+    ...hits.map((h, i) => `| ${i + 1} | ${columns.map(([, get]) => cell(get(h))).join(' | ')} |`),
+  ].join('\n');
+}
+
+function partial(outcome: SearchOutcome) {
+  return {
+    ...(outcome.warning ? { partial: true, warning: outcome.warning, resumeCursor: outcome.resumeCursor } : {}),
+    ...(outcome.filteredByPolicy ? { filteredByPolicy: outcome.filteredByPolicy } : {}),
+  };
+}
+
+export function formatSearchResults(profile: OutputProfile, outcome: SearchOutcome) {
+  const { query, cql, hits, totalAvailable, pagination, fields } = outcome;
+
+  switch (profile) {
+    case 'compact':
+      return {
+        results: hits.map((h) => pick(h, fields, COMPACT_EXCERPT_CHARS)),
+        resultCount: hits.length,
+        ...(pagination.nextCursor ? { nextCursor: pagination.nextCursor } : {}),
+        ...partial(outcome),
+      };
+
+    case 'copilot-studio': {
+      // Numbered titles and the banner stop Copilot Studio from showing only the first 10 results
+      const results = hits.map((h, i) => ({ ...pick(h, fields), title: `[${i + 1}] ${h.title}` }));
+      if (results.length) results[0].title = `DISPLAY ALL ${results.length} RESULTS BELOW - DO NOT STOP AT 10 - ${results[0].title}`;
+      return {
+        cql,
+        resultSummary: `Found ${results.length} results out of ${totalAvailable} total matches for "${query}" - DISPLAY ALL ${results.length} RESULTS BELOW`,
+        results,
+        resultCount: results.length,
+        totalAvailable,
+        displayInstructions: `CRITICAL: Display all ${results.length} results. Do not truncate to 10. Show every single result with its title and URL.`,
+        pagination,
+        ...partial(outcome),
+      };
+    }
+
+    case 'markdown':
+    case 'raw':
+      return {
+        cql,
+        results: hits.map((h) => pick(h, fields)),
+        resultCount: hits.length,
+        totalAvailable,
+        pagination,
+        ...(profile === 'markdown' ? { markdown: searchResultsMarkdown(hits, fields) } : {}),
+        ...partial(outcome),
+      };
+  }
+}
+
+// The initialize instructions for a connection's profile
+export function serverInstructions(profile: OutputProfile): string {
+  if (profile === 'copilot-studio') {
+    return 'Policy: When the user asks about Confluence content, always call the searchPages tool and return the results. Default to the searchPages tool for any query: set query to the user text. CRITICAL REQUIREMENT: You MUST display EVERY SINGLE result returned by the tool - do not stop at 10, do not summarize, do not truncate. Show ALL results (up to 50) with each result on its own numbered line showing the title and URL. Never say "here are some of the results" - show them ALL.';
+  }
+  return 'Use searchPages to find Confluence content and getPage to read a page as Markdown; Jira issues are available through searchIssues and getIssue.';
+}
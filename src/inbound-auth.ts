@@ -0,0 +1,415 @@
+import { constants, createHash, createPublicKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { readFileSync } from 'fs';
+import type { NextFunction, Request, Response } from 'express';
+import { httpFetch } from './atlassian.js';
+import { logger, requestContext } from './logger.js';
+
+/*
+ * Inbound authentication and rate limiting for the /mcp endpoints.
+ *
+ * Off unless configured. Callers authenticate with either:
+ * - a static API key from MCP_API_KEYS_FILE, sent as X-API-Key or
+ *   "Authorization: Bearer <key>":
+ *     { "keys": [{ "id": "copilot", "sha256": "<hex>", "scopes": ["read"],
+ *                  "rateLimit": { "perMinute": 60, "burst": 20 } }] }
+ *   ("key" holds the plain key instead of "sha256" when hashing is not wanted)
+ * - a JWT bearer token signed with a key from MCP_JWT_JWKS_FILE, or from the
+ *   JWKS that MCP_JWT_ISSUER publishes through OpenID discovery. iss is checked
+ *   against MCP_JWT_ISSUER and aud against MCP_JWT_AUDIENCE when they are set.
+ *   Scopes come from the scp/scope and roles claims: MCP_JWT_WRITE_SCOPE
+ *   (default mcp.write) grants read and write, MCP_JWT_READ_SCOPE (default
+ *   mcp.read) read only, and MCP_JWT_ADMIN_SCOPE (default mcp.admin) admin.
+ *
+ * The read scope covers every tool except the Confluence write tools, which
+ * need write. The admin scope is only for the /admin routes and grants no
+ * tools. Missing or invalid credentials get 401, a caller without the needed
+ * scope 403.
+ *
+ * Rate limiting is a token bucket per client (the key id or token subject, or
+ * the client IP when auth is off; see TRUST_PROXY in server.ts):
+ * MCP_RATE_LIMIT_PER_MINUTE requests refill per minute, up to
+ * MCP_RATE_LIMIT_BURST at once (default: the per-minute rate). An API key's
+ * rateLimit overrides both. Exhausted buckets get 429 with Retry-After.
+ *
+ * Rejected credentials are limited separately, per client IP, to
+ * MCP_AUTH_FAILURES_PER_MINUTE (default 10). Once an address runs out, its
+ * requests get 429 before their credentials are checked.
+ */
+
+export const SCOPES = ['read', 'write', 'admin'] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export interface RateLimit {
+  perMinute: number;
+  burst: number;
+}
+
+export interface InboundIdentity {
+  // 'local' is the user running the stdio entry point, who holds every scope
+  kind: 'apiKey' | 'jwt' | 'local';
+  // API key id, token subject or local user name
+  subject: string;
+  scopes: Scope[];
+  rateLimit?: RateLimit;
+}
+
+interface ApiKey {
+  id: string;
+  hash: Buffer;
+  scopes: Scope[];
+  rateLimit?: RateLimit;
+}
+
+const env = process.env;
+const API_KEYS_FILE = env.MCP_API_KEYS_FILE?.trim() || '';
+const JWKS_FILE = env.MCP_JWT_JWKS_FILE?.trim() || '';
+const JWT_ISSUER = env.MCP_JWT_ISSUER?.trim() || '';
+const JWT_AUDIENCES = (env.MCP_JWT_AUDIENCE || '').split(',').map((a) => a.trim()).filter(Boolean);
+const JWT_READ_SCOPE = env.MCP_JWT_READ_SCOPE?.trim() || 'mcp.read';
+const JWT_WRITE_SCOPE = env.MCP_JWT_WRITE_SCOPE?.trim() || 'mcp.write';
+const JWT_ADMIN_SCOPE = env.MCP_JWT_ADMIN_SCOPE?.trim() || 'mcp.admin';
+const CLOCK_SKEW_S = 60;
+const JWKS_TTL_MS = 60 * 60_000;
+// A token with an unknown kid refreshes remote keys at most this often
+const JWKS_MIN_REFRESH_MS = 60_000;
+
+const jwtEnabled = !!(JWKS_FILE || JWT_ISSUER);
+export const inboundAuthEnabled = !!API_KEYS_FILE || jwtEnabled;
+
+function readRateLimit(raw: any, where: string): RateLimit | undefined {
+  if (raw === undefined) return undefined;
+  const perMinute = Number(raw?.perMinute);
+  if (!Number.isFinite(perMinute) || perMinute <= 0) throw new Error(`${where}.perMinute must be a positive number`);
+  const burst = raw?.burst === undefined ? perMinute : Number(raw.burst);
+  if (!Number.isFinite(burst) || burst < 1) throw new Error(`${where}.burst must be at least 1`);
+  return { perMinute, burst };
+}
+
+function readScopes(raw: any, where: string): Scope[] {
+  const scopes = raw === undefined ? ['read'] : raw;
+  if (!Array.isArray(scopes) || !scopes.length || scopes.some((s) => !(SCOPES as readonly string[]).includes(s))) {
+    throw new Error(`${where}.scopes must list ${SCOPES.join(', ')} or several of them`);
+  }
+  // write implies read; admin stands alone
+  const granted: Scope[] = scopes.includes('write') ? ['read', 'write'] : scopes.includes('read') ? ['read'] : [];
+  return scopes.includes('admin') ? [...granted, 'admin'] : granted;
+}
+
+function sha256(value: string) {
+  return createHash('sha256').update(value, 'utf8').digest();
+}
+
+export function parseApiKeys(raw: any): ApiKey[] {
+  if (!Array.isArray(raw?.keys)) throw new Error('expected { "keys": [...] }');
+  const seen = new Set<string>();
+  return raw.keys.map((k: any, i: number) => {
+    const where = `keys[${i}]`;
+    const id = typeof k?.id === 'string' ? k.id.trim() : '';
+    if (!id) throw new Error(`${where}.id is required`);
+    if (seen.has(id)) throw new Error(`${where}.id "${id}" is used twice`);
+    seen.add(id);
+    let hash: Buffer;
+    if (typeof k?.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(k.sha256)) hash = Buffer.from(k.sha256, 'hex');
+    else if (typeof k?.key === 'string' && k.key.length >= 16) hash = sha256(k.key);
+    else throw new Error(`${where} needs a sha256 hex digest or a key of at least 16 characters`);
+    return { id, hash, scopes: readScopes(k?.scopes, where), rateLimit: readRateLimit(k?.rateLimit, `${where}.rateLimit`) };
+  });
+}
+
+let apiKeys: ApiKey[] | undefined;
+
+// Read once; an unreadable or invalid file throws so the server does not start open
+function getApiKeys(): ApiKey[] {
+  if (!apiKeys) {
+    if (!API_KEYS_FILE) {
+      apiKeys = [];
+    } else {
+      try {
+        apiKeys = parseApiKeys(JSON.parse(readFileSync(API_KEYS_FILE, 'utf8')));
+      } catch (error: any) {
+        throw new Error(`Invalid API keys file ${API_KEYS_FILE}: ${error?.message || error}`);
+      }
+    }
+  }
+  return apiKeys;
+}
+
+function findApiKey(presented: string): ApiKey | undefined {
+  const hash = sha256(presented);
+  // Compare against every key so timing does not reveal which one matched
+  let match: ApiKey | undefined;
+  for (const key of getApiKeys()) {
+    if (timingSafeEqual(key.hash, hash) && !match) match = key;
+  }
+  return match;
+}
+
+// === JWT ===
+
+const ALGORITHMS: Record<string, { hash: string; kty: string; pss?: boolean; crv?: string }> = {
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+  PS256: { hash: 'sha256', kty: 'RSA', pss: true },
+  PS384: { hash: 'sha384', kty: 'RSA', pss: true },
+  PS512: { hash: 'sha512', kty: 'RSA', pss: true },
+  ES256: { hash: 'sha256', kty: 'EC', crv: 'P-256' },
+  ES384: { hash: 'sha384', kty: 'EC', crv: 'P-384' },
+  ES512: { hash: 'sha512', kty: 'EC', crv: 'P-521' },
+};
+
+interface SigningKey {
+  kid?: string;
+  kty: string;
+  crv?: string;
+  key: KeyObject;
+}
+
+function parseJwks(raw: any): SigningKey[] {
+  if (!Array.isArray(raw?.keys)) throw new Error('expected a JWKS document with a keys array');
+  return raw.keys
+    .filter((jwk: any) => (!jwk?.use || jwk.use === 'sig') && (jwk?.kty === 'RSA' || jwk?.kty === 'EC'))
+    .map((jwk: any) => ({ kid: jwk.kid, kty: jwk.kty, crv: jwk.crv, key: createPublicKey({ key: jwk, format: 'jwk' }) }));
+}
+
+// Signing keys from MCP_JWT_JWKS_FILE, or discovered from the issuer and refreshed hourly
+class KeySet {
+  private keys: SigningKey[] = [];
+  private loadedAt = 0;
+  private loading?: Promise<void>;
+
+  async find(kid: string | undefined, kty: string): Promise<SigningKey | undefined> {
+    if (!this.loadedAt || (!JWKS_FILE && Date.now() - this.loadedAt > JWKS_TTL_MS)) await this.load();
+    let key = this.match(kid, kty);
+    // Unknown kid: the issuer may have rotated its keys
+    if (!key && !JWKS_FILE && Date.now() - this.loadedAt > JWKS_MIN_REFRESH_MS) {
+      await this.load();
+      key = this.match(kid, kty);
+    }
+    return key;
+  }
+
+  private match(kid: string | undefined, kty: string) {
+    const candidates = this.keys.filter((k) => k.kty === kty);
+    if (kid) return candidates.find((k) => k.kid === kid);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.fetchKeys()
+      .then((keys) => {
+        this.keys = keys;
+        logger.info('Loaded JWT signing keys', { count: keys.length, source: JWKS_FILE || JWT_ISSUER });
+      })
+      .catch((error) => {
+        logger.error('Could not load JWT signing keys', { source: JWKS_FILE || JWT_ISSUER, err: error });
+      })
+      .finally(() => {
+        this.loadedAt = Date.now();
+        this.loading = undefined;
+      });
+    return this.loading;
+  }
+
+  private async fetchKeys(): Promise<SigningKey[]> {
+    if (JWKS_FILE) return parseJwks(JSON.parse(readFileSync(JWKS_FILE, 'utf8')));
+    const discovery = await fetchJson(`${JWT_ISSUER.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+    if (typeof discovery?.jwks_uri !== 'string') throw new Error('OpenID configuration has no jwks_uri');
+    return parseJwks(await fetchJson(discovery.jwks_uri));
+  }
+}
+
+async function fetchJson(url: string) {
+  const res = await httpFetch(url, { headers: { Accept: 'application/json' }, signal: AbortSignal.timeout(10_000) });
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return res.json() as Promise<any>;
+}
+
+const keySet = new KeySet();
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function claimList(value: unknown): string[] {
+  if (typeof value === 'string') return value.split(' ').filter(Boolean);
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+async function verifyJwt(token: string): Promise<InboundIdentity | { error: string }> {
+  const [rawHeader, rawPayload, rawSignature] = token.split('.');
+  let header: any;
+  let claims: any;
+  try {
+    header = decodeSegment(rawHeader);
+    claims = decodeSegment(rawPayload);
+  } catch {
+    return { error: 'Malformed token' };
+  }
+
+  const alg = ALGORITHMS[header?.alg];
+  if (!alg) return { error: `Unsupported token algorithm: ${header?.alg}` };
+  const key = await keySet.find(header.kid, alg.kty);
+  if (!key) return { error: 'Token signed with an unknown key' };
+  // Each ES algorithm fixes its curve; a key on another curve must not verify the token
+  if (alg.crv && key.crv !== alg.crv) return { error: `Token algorithm ${header.alg} does not match the key's curve` };
+  let valid = false;
+  try {
+    valid = verify(alg.hash, Buffer.from(`${rawHeader}.${rawPayload}`), {
+      key: key.key,
+      ...(alg.kty === 'EC' ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+      ...(alg.pss ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+    }, Buffer.from(rawSignature || '', 'base64url'));
+  } catch {
+    // A signature of the wrong shape for the key throws rather than failing verification
+  }
+  if (!valid) return { error: 'Invalid token signature' };
+
+  const now = Date.now() / 1000;
+  if (typeof claims?.exp !== 'number' || claims.exp + CLOCK_SKEW_S < now) return { error: 'Token expired' };
+  if (typeof claims?.nbf === 'number' && claims.nbf - CLOCK_SKEW_S > now) return { error: 'Token not yet valid' };
+  if (JWT_ISSUER && claims?.iss !== JWT_ISSUER) return { error: 'Token issuer not accepted' };
+  if (JWT_AUDIENCES.length && !claimList(claims?.aud).some((a) => JWT_AUDIENCES.includes(a))) return { error: 'Token audience not accepted' };
+
+  const granted = [...claimList(claims?.scp ?? claims?.scope), ...claimList(claims?.roles)];
+  const scopes: Scope[] = granted.includes(JWT_WRITE_SCOPE) ? ['read', 'write'] : granted.includes(JWT_READ_SCOPE) ? ['read'] : [];
+  if (granted.includes(JWT_ADMIN_SCOPE)) scopes.push('admin');
+  const subject = String(claims?.sub || claims?.azp || claims?.appid || claims?.client_id || '');
+  if (!subject) return { error: 'Token has no subject' };
+  return { kind: 'jwt', subject, scopes };
+}
+
+// === Authentication ===
+
+function presentedCredential(req: Request): string {
+  const apiKey = req.header('X-API-Key')?.trim();
+  if (apiKey) return apiKey;
+  const m = (req.header('Authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  return m ? m[1] : '';
+}
+
+export async function authenticate(req: Request): Promise<InboundIdentity | { error: string }> {
+  const credential = presentedCredential(req);
+  if (!credential) return { error: 'Missing credentials: send an API key (X-API-Key) or a bearer token' };
+  const key = findApiKey(credential);
+  if (key) return { kind: 'apiKey', subject: key.id, scopes: key.scopes, rateLimit: key.rateLimit };
+  if (jwtEnabled && credential.split('.').length === 3) return verifyJwt(credential);
+  return { error: 'Invalid credentials' };
+}
+
+// True when the caller may use tools needing this scope; everything is allowed while auth is off
+export function hasScope(identity: InboundIdentity | undefined, scope: Scope): boolean {
+  return !inboundAuthEnabled || !!identity?.scopes.includes(scope);
+}
+
+// === Rate limiting ===
+
+const perMinute = Math.max(Number(env.MCP_RATE_LIMIT_PER_MINUTE) || 0, 0);
+const defaultRateLimit: RateLimit | undefined = perMinute
+  ? { perMinute, burst: Math.max(Number(env.MCP_RATE_LIMIT_BURST) || perMinute, 1) }
+  : undefined;
+const authFailuresPerMinute = Math.max(Number(env.MCP_AUTH_FAILURES_PER_MINUTE) || 10, 1);
+const authFailureLimit: RateLimit = { perMinute: authFailuresPerMinute, burst: authFailuresPerMinute };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  // Take one token; returns the seconds to wait when the bucket is empty
+  take(client: string, limit: RateLimit, now = Date.now()): { ok: true } | { ok: false; retryAfter: number } {
+    const taken = this.check(client, limit, now);
+    if (taken.ok) this.buckets.get(client)!.tokens -= 1;
+    return taken;
+  }
+
+  // Like take, without using up a token
+  check(client: string, limit: RateLimit, now = Date.now()): { ok: true } | { ok: false; retryAfter: number } {
+    const ratePerMs = limit.perMinute / 60_000;
+    const bucket = this.buckets.get(client) ?? { tokens: limit.burst, updatedAt: now };
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * ratePerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+    if (bucket.tokens >= 1) return { ok: true };
+    return { ok: false, retryAfter: Math.max(Math.ceil((1 - bucket.tokens) / ratePerMs / 1000), 1) };
+  }
+
+  // Forget clients idle long enough for their bucket to have refilled
+  sweep(now = Date.now(), idleMs = 10 * 60_000) {
+    for (const [client, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > idleMs) this.buckets.delete(client);
+    }
+  }
+}
+
+const limiter = new RateLimiter();
+setInterval(() => limiter.sweep(), 60_000).unref?.();
+
+function reject(res: Response, status: number, message: string, headers: Record<string, string> = {}) {
+  for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+  res.status(status).json({ jsonrpc: '2.0', id: null, error: { code: -32000, message } });
+}
+
+/**
+ * Express middleware for the MCP and admin routes: authenticates the caller, records
+ * the identity in res.locals.identity and applies the rate limit.
+ */
+export function inboundAuth(req: Request, res: Response, next: NextFunction) {
+  (async () => {
+    let identity: InboundIdentity | undefined;
+    // req.ip honours X-Forwarded-For only from proxies trusted with TRUST_PROXY
+    const address = `ip:${req.ip || req.socket.remoteAddress}`;
+    if (inboundAuthEnabled) {
+      // Addresses that keep sending bad credentials are turned away before guessing again
+      const failures = `failed-auth:${address}`;
+      const allowed = limiter.check(failures, authFailureLimit);
+      if (!allowed.ok) {
+        logger.warn('Too many failed authentication attempts', { client: address, retryAfter: allowed.retryAfter });
+        return reject(res, 429, `Too many failed authentication attempts: retry after ${allowed.retryAfter}s`, { 'Retry-After': String(allowed.retryAfter) });
+      }
+      const result = await authenticate(req);
+      if ('error' in result) {
+        limiter.take(failures, authFailureLimit);
+        logger.warn('Rejected unauthenticated MCP request', { reason: result.error, client: address });
+        return reject(res, 401, `Unauthorized: ${result.error}`, { 'WWW-Authenticate': 'Bearer realm="mcp"' });
+      }
+      if (!result.scopes.length) {
+        logger.warn('Rejected MCP request without a granted scope', { client: result.subject });
+        return reject(res, 403, `Forbidden: the token grants none of ${JWT_READ_SCOPE}, ${JWT_WRITE_SCOPE} or ${JWT_ADMIN_SCOPE}`, {
+          'WWW-Authenticate': `Bearer realm="mcp", error="insufficient_scope", scope="${JWT_READ_SCOPE}"`,
+        });
+      }
+      identity = result;
+      res.locals.identity = identity;
+      const store = requestContext.getStore();
+      if (store) store.clientId = `${identity.kind}:${identity.subject}`;
+    }
+
+    const limit = identity?.rateLimit ?? defaultRateLimit;
+    if (limit) {
+      const client = identity ? `${identity.kind}:${identity.subject}` : address;
+      const taken = limiter.take(client, limit);
+      if (!taken.ok) {
+        logger.warn('Rate limit exceeded', { client, retryAfter: taken.retryAfter });
+        return reject(res, 429, `Too many requests: retry after ${taken.retryAfter}s`, { 'Retry-After': String(taken.retryAfter) });
+      }
+    }
+    next();
+  })().catch(next);
+}
+
+export function logInboundAuthSummary() {
+  if (!inboundAuthEnabled) {
+    if (defaultRateLimit) logger.info('Inbound rate limit', { ...defaultRateLimit });
+    return;
+  }
+  logger.info('Inbound authentication enabled', {
+    keys: getApiKeys().map((k) => ({ id: k.id, scopes: k.scopes })),
+    jwt: jwtEnabled ? { jwksFile: JWKS_FILE || undefined, issuer: JWT_ISSUER || undefined, audiences: JWT_AUDIENCES } : undefined,
+    rateLimit: defaultRateLimit,
+    authFailuresPerMinute,
+  });
+}
@@ -0,0 +1,300 @@
+import { z } from 'zod/v4';
+import { getJiraConfig, toolError, ToolContext } from './atlassian.js';
+import { atlassianFetch, describeFetchError } from './client.js';
+import { logger } from './logger.js';
+import { htmlToMarkdown } from './markdown.js';
+import { defineTool, encodeOffset, partialFields, readOffset } from './tools.js';
+
+/*
+ * Jira tools: JQL search, issue detail and workflow transitions.
+ *
+ * Descriptions and comments are requested with expand=renderedFields so they
+ * arrive as HTML and go through the same Markdown renderer as Confluence pages.
+ * On Data Center (the profile's flavor) search uses the v2 endpoint, which
+ * pages by startAt; its cursors are that offset, encoded.
+ */
+
+const ISSUE_KEY_RE = /^(?:[A-Z][A-Z0-9_]*-\d+|\d+)$/i;
+
+const issueKeyField = z.string().trim().regex(ISSUE_KEY_RE, 'Expected an issue key like ENG-123 or a numeric issue id').describe('Issue key (e.g. ENG-123) or numeric issue id');
+
+const issueSummary = z.looseObject({
+  key: z.string(),
+  id: z.string(),
+  summary: z.string(),
+  status: z.string().nullable(),
+  assignee: z.string().nullable(),
+  issueType: z.string().nullable(),
+  priority: z.string().nullable(),
+  updated: z.string().nullable(),
+  url: z.string(),
+});
+
+export const jiraTools = [
+  defineTool({
+    name: 'searchIssues',
+    description:
+      'Search Jira issues with JQL (e.g. project = ENG AND status = "In Progress" ORDER BY updated DESC). Returns key, summary, status, assignee and URL for each issue.',
+    input: z.strictObject({
+      jql: z.string().trim().min(1).describe('JQL query string'),
+      limit: z.number().int().min(1).max(100).optional().describe('Page size per request (default 50, max 100)'),
+      cursor: z.string().optional().describe('Opaque cursor from a previous response for the next page'),
+      maxResults: z.number().int().min(0).optional().describe('Maximum number of results to return (default 50)'),
+    }),
+    output: z.looseObject({
+      jql: z.string(),
+      results: z.array(issueSummary),
+      resultCount: z.number(),
+      pagination: z.looseObject({ limit: z.number(), size: z.number(), nextCursor: z.string().optional() }),
+      ...partialFields,
+    }),
+    handler: handleSearchIssues,
+  }),
+  defineTool({
+    name: 'getIssue',
+    description:
+      'Fetch a Jira issue by key (e.g. ENG-123) with summary, description as Markdown, status, assignee, comments and linked issues.',
+    input: z.strictObject({
+      issueKey: issueKeyField,
+      maxComments: z.number().int().min(0).max(100).optional().describe('Maximum number of most recent comments to include (default 20, max 100)'),
+    }),
+    output: issueSummary.extend({
+      reporter: z.string().nullable(),
+      labels: z.array(z.string()),
+      parent: z.string().optional(),
+      created: z.string().nullable(),
+      description: z.string(),
+      comments: z.array(z.looseObject({ id: z.string(), author: z.string().nullable(), created: z.string().nullable(), body: z.string() })),
+      commentCount: z.number(),
+      linkedIssues: z.array(z.looseObject({ relation: z.string().optional(), key: z.string(), summary: z.string(), status: z.string().nullable(), url: z.string().optional() })),
+    }),
+    handler: handleGetIssue,
+  }),
+  defineTool({
+    name: 'listTransitions',
+    description: 'List the workflow transitions currently available for a Jira issue and the status each one leads to.',
+    input: z.strictObject({ issueKey: issueKeyField }),
+    output: z.looseObject({
+      issueKey: z.string(),
+      transitions: z.array(z.looseObject({ id: z.string(), name: z.string(), toStatus: z.string().nullable(), toStatusCategory: z.string().nullable() })),
+      count: z.number(),
+    }),
+    handler: handleListTransitions,
+  }),
+];
+
+function readIssueKey(params: any) {
+  const issueKey = String(params?.issueKey ?? '').trim().toUpperCase();
+  if (!issueKey) {
+    return toolError('MISSING_INPUT', 'Missing required input: issueKey', { missing: ['issueKey'] });
+  }
+  if (!ISSUE_KEY_RE.test(issueKey)) {
+    return toolError('INVALID_INPUT', `Invalid issue key: ${issueKey}`, { issueKey });
+  }
+  return { issueKey };
+}
+
+function userName(user: any): string | null {
+  return user?.displayName || user?.emailAddress || null;
+}
+
+async function jiraGet(base: string, authHeader: string, path: string, subject: string) {
+  const url = `${base}${path}`;
+  logger.debug('Fetching from Jira', { url });
+  const res = await atlassianFetch(url, { headers: { Authorization: authHeader, Accept: 'application/json' } });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    logger.warn('Jira API error', { status: res.status, body: text || res.statusText });
+    if (res.status === 404) return toolError('NOT_FOUND', `${subject} not found or not accessible`);
+    return toolError('UPSTREAM_ERROR', `API error: ${res.status} - ${text || res.statusText}`, { status: res.status });
+  }
+  return { data: (await res.json()) as any };
+}
+
+export async function handleSearchIssues(params: any, ctx: ToolContext = {}) {
+  const jql = String(params?.jql ?? '').trim();
+  const limit = Math.min(Math.max(Number(params?.limit) || 50, 1), 100);
+  const cursor = String(params?.cursor || '').trim();
+  const maxResults = Math.max(Number.isFinite(Number(params?.maxResults)) ? Number(params?.maxResults) : 50, 0);
+
+  logger.info('Issue search', { jql, maxResults });
+
+  if (!jql) {
+    return toolError('MISSING_INPUT', 'Missing required input: jql', { missing: ['jql'] });
+  }
+
+  const config = await getJiraConfig(ctx);
+  if ('error' in config) return config;
+  const { base, siteBase, authHeader } = config;
+  const offsetPaging = config.flavor === 'datacenter';
+  let offset = offsetPaging ? readOffset(cursor) : 0;
+
+  try {
+    const collected: any[] = [];
+    let nextCursor = cursor;
+    let pageCount = 0;
+    // Set when a later page fails; issues collected so far are still returned
+    let warning = '';
+
+    // Enhanced JQL search paginates with nextPageToken only; it has no offset or total
+    do {
+      const qs = new URLSearchParams({
+        jql,
+        maxResults: String(limit),
+        fields: 'summary,status,assignee,issuetype,priority,updated',
+      });
+      if (offsetPaging) qs.set('startAt', String(offset));
+      else if (nextCursor) qs.set('nextPageToken', nextCursor);
+
+      let page;
+      try {
+        page = await jiraGet(base, authHeader, offsetPaging ? `/rest/api/2/search?${qs.toString()}` : `/rest/api/3/search/jql?${qs.toString()}`, 'Search');
+      } catch (error: any) {
+        if (!pageCount) throw error;
+        page = toolError('UPSTREAM_ERROR', describeFetchError(error));
+      }
+      if ('error' in page) {
+        if (!pageCount) return page;
+        warning = `Results are partial: fetching page ${pageCount + 1} failed (${page.error.message})`;
+        logger.warn(warning, { jql });
+        break;
+      }
+      const data = page.data;
+
+      collected.push(...(data?.issues || []).map((issue: any) => ({
+        key: issue?.key,
+        id: issue?.id,
+        summary: issue?.fields?.summary ?? '',
+        status: issue?.fields?.status?.name ?? null,
+        assignee: userName(issue?.fields?.assignee),
+        issueType: issue?.fields?.issuetype?.name ?? null,
+        priority: issue?.fields?.priority?.name ?? null,
+        updated: issue?.fields?.updated ?? null,
+        url: `${siteBase}/browse/${issue?.key}`,
+      })));
+
+      if (offsetPaging) {
+        const received = (data?.issues || []).length;
+        offset += received;
+        nextCursor = received > 0 && offset < (Number(data?.total) || 0) ? encodeOffset(offset) : '';
+      } else {
+        nextCursor = !data?.isLast && typeof data?.nextPageToken === 'string' ? data.nextPageToken : '';
+      }
+      pageCount++;
+      logger.debug('Fetched issue search page', { page: pageCount, collected: collected.length, maxResults });
+      ctx.progress?.(Math.min(collected.length, maxResults), maxResults, `Fetched page ${pageCount} (${collected.length} issues)`);
+
+      if (collected.length >= maxResults) break;
+    } while (nextCursor && pageCount < 10);
+
+    const results = collected.slice(0, maxResults);
+    return {
+      jql,
+      results,
+      resultCount: results.length,
+      pagination: {
+        limit,
+        size: results.length,
+        // Only offer a cursor when nothing fetched so far was dropped by maxResults
+        nextCursor: nextCursor && collected.length <= maxResults ? nextCursor : undefined,
+      },
+      ...(warning ? { partial: true, warning } : {}),
+    };
+  } catch (error: any) {
+    logger.error('Error searching issues in Jira API', { jql, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { jql });
+  }
+}
+
+export async function handleGetIssue(params: any, ctx: ToolContext = {}) {
+  const key = readIssueKey(params);
+  if ('error' in key) return key;
+  const { issueKey } = key;
+  const maxComments = Math.min(Math.max(Number(params?.maxComments) || 20, 0), 100);
+
+  const config = await getJiraConfig(ctx);
+  if ('error' in config) return config;
+  const { base, siteBase, authHeader } = config;
+
+  try {
+    const qs = new URLSearchParams({
+      expand: 'renderedFields',
+      fields: 'summary,description,status,assignee,reporter,priority,issuetype,labels,created,updated,parent,comment,issuelinks',
+    });
+    const page = await jiraGet(base, authHeader, `/rest/api/2/issue/${encodeURIComponent(issueKey)}?${qs.toString()}`, `Issue ${issueKey}`);
+    if ('error' in page) return page;
+    const data = page.data;
+    const fields = data?.fields || {};
+    const rendered = data?.renderedFields || {};
+
+    const rawComments: any[] = fields?.comment?.comments || [];
+    const renderedComments: any[] = rendered?.comment?.comments || [];
+    const firstComment = Math.max(rawComments.length - maxComments, 0);
+    const comments = rawComments.slice(firstComment).map((c: any, i: number) => ({
+      id: c?.id,
+      author: userName(c?.author),
+      created: c?.created ?? null,
+      body: htmlToMarkdown(renderedComments[firstComment + i]?.body || '', { baseUrl: siteBase }) || String(c?.body ?? ''),
+    }));
+
+    const linkedIssues = (fields?.issuelinks || []).map((link: any) => {
+      const other = link?.outwardIssue || link?.inwardIssue;
+      return {
+        relation: link?.outwardIssue ? link?.type?.outward : link?.type?.inward,
+        key: other?.key,
+        summary: other?.fields?.summary ?? '',
+        status: other?.fields?.status?.name ?? null,
+        url: other?.key ? `${siteBase}/browse/${other.key}` : undefined,
+      };
+    });
+
+    return {
+      key: data?.key,
+      id: data?.id,
+      url: `${siteBase}/browse/${data?.key}`,
+      summary: fields?.summary ?? '',
+      status: fields?.status?.name ?? null,
+      issueType: fields?.issuetype?.name ?? null,
+      priority: fields?.priority?.name ?? null,
+      assignee: userName(fields?.assignee),
+      reporter: userName(fields?.reporter),
+      labels: fields?.labels || [],
+      parent: fields?.parent?.key ?? undefined,
+      created: fields?.created ?? null,
+      updated: fields?.updated ?? null,
+      description: htmlToMarkdown(rendered?.description || '', { baseUrl: siteBase }) || String(fields?.description ?? ''),
+      comments,
+      commentCount: fields?.comment?.total ?? rawComments.length,
+      linkedIssues,
+    };
+  } catch (error: any) {
+    logger.error('Error fetching issue from Jira API', { issueKey, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { issueKey });
+  }
+}
+
+export async function handleListTransitions(params: any, ctx: ToolContext = {}) {
+  const key = readIssueKey(params);
+  if ('error' in key) return key;
+  const { issueKey } = key;
+
+  const config = await getJiraConfig(ctx);
+  if ('error' in config) return config;
+  const { base, authHeader } = config;
+
+  try {
+    const page = await jiraGet(base, authHeader, `/rest/api/2/issue/${encodeURIComponent(issueKey)}/transitions`, `Issue ${issueKey}`);
+    if ('error' in page) return page;
+
+    const transitions = (page.data?.transitions || []).map((t: any) => ({
+      id: t?.id,
+      name: t?.name,
+      toStatus: t?.to?.name ?? null,
+      toStatusCategory: t?.to?.statusCategory?.name ?? null,
+    }));
+    return { issueKey, transitions, count: transitions.length };
+  } catch (error: any) {
+    logger.error('Error fetching transitions from Jira API', { issueKey, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { issueKey });
+  }
+}
@@ -0,0 +1,105 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/*
+ * Structured JSON logger. One line per entry:
+ *   {"time":"...","level":"info","msg":"...","requestId":"...",...fields}
+ *
+ * LOG_LEVEL (debug, info, warn, error; default info) sets the threshold.
+ * Entries written while handling an HTTP request carry its correlation id
+ * (taken from X-Request-Id when the caller sends one); the same id is sent
+ * upstream on Atlassian calls so both sides can be matched up.
+ *
+ * Every entry is redacted before it is written: fields whose name looks like
+ * a credential are replaced, and Basic/Bearer values or token query
+ * parameters inside strings are masked.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const threshold = LEVELS[(process.env.LOG_LEVEL || 'info').trim().toLowerCase() as LogLevel] ?? LEVELS.info;
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY_RE = /authorization|token|secret|password|passwd|api[-_]?key|cookie|credential|encryption[-_]?key|^code$/i;
+const SECRET_VALUE_RES: [RegExp, string][] = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/([?&](?:access_token|refresh_token|id_token|token|code|client_secret|state)=)[^&#\s"]+/gi, `$1${REDACTED}`],
+];
+const MAX_DEPTH = 6;
+
+export interface RequestContext {
+  requestId: string;
+  sessionId?: string;
+  // Authenticated MCP client (see inbound-auth.ts)
+  clientId?: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Use the caller's correlation id when it is safe to echo, otherwise mint one
+export function correlationId(incoming: unknown): string {
+  const value = typeof incoming === 'string' ? incoming.trim() : '';
+  return /^[\w.:-]{1,128}$/.test(value) ? value : randomUUID();
+}
+
+export function redactString(s: string): string {
+  return SECRET_VALUE_RES.reduce((out, [re, replacement]) => out.replace(re, replacement), s);
+}
+
+export function redact(value: any, depth = 0): any {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack ? redactString(value.stack) : undefined };
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, any> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = SECRET_KEY_RE.test(key) && v !== undefined && v !== null && v !== '' ? REDACTED : redact(v, depth + 1);
+  }
+  return out;
+}
+
+let sink = (line: string, level: LogLevel) => {
+  (level === 'error' ? process.stderr : process.stdout).write(line);
+};
+
+// Redirect log output (e.g. to keep stdout free for a protocol stream)
+export function setLogSink(write: (line: string, level: LogLevel) => void) {
+  sink = write;
+}
+
+function write(level: LogLevel, msg: string, fields?: Record<string, any>) {
+  if (LEVELS[level] < threshold) return;
+  const ctx = requestContext.getStore();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(msg),
+    ...(ctx?.requestId ? { requestId: ctx.requestId } : {}),
+    ...(ctx?.sessionId ? { sessionId: ctx.sessionId } : {}),
+    ...(ctx?.clientId ? { clientId: ctx.clientId } : {}),
+    ...(fields ? redact(fields) : {}),
+  };
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, msg: entry.msg, requestId: ctx?.requestId, note: 'fields not serializable' });
+  }
+  sink(line + '\n', level);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, any>) => write('debug', msg, fields),
+  info: (msg: string, fields?: Record<string, any>) => write('info', msg, fields),
+  warn: (msg: string, fields?: Record<string, any>) => write('warn', msg, fields),
+  error: (msg: string, fields?: Record<string, any>) => write('error', msg, fields),
+  enabled: (level: LogLevel) => LEVELS[level] >= threshold,
+};
@@ -0,0 +1,573 @@
+/*
+ * Confluence storage format (XHTML + ac:/ri: macros) to Markdown conversion.
+ *
+ * The storage format is not guaranteed to be well-formed XML, so this uses a
+ * small tolerant tokenizer rather than a strict parser: unknown tags render
+ * their children, stray close tags are ignored and unclosed tags end at their
+ * parent's close tag.
+ *
+ * markdownToStorage goes the other way for the write tools, producing
+ * well-formed storage XHTML from the Markdown subset the renderer emits.
+ */
+
+export interface MarkupNode {
+  type: 'element' | 'text';
+  name: string;
+  attrs: Record<string, string>;
+  children: MarkupNode[];
+  text: string;
+  // CDATA text is emitted verbatim (whitespace preserved)
+  raw?: boolean;
+}
+
+export interface MarkdownOptions {
+  // Confluence base URL with its context path (e.g. https://your-domain.atlassian.net/wiki) used to resolve page links
+  baseUrl?: string;
+  // Space key of the page being converted, used for links without ri:space-key
+  spaceKey?: string;
+}
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'col', 'meta', 'link', 'input', 'wbr']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+  copy: '©', reg: '®', trade: '™', rarr: '→', larr: '←', times: '×', deg: '°',
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, ent: string) => {
+    if (ent[0] === '#') {
+      const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      // Out-of-range references would make fromCodePoint throw; keep them as written
+      return code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[ent.toLowerCase()] ?? m;
+  });
+}
+
+function parseAttrs(src: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([\w:.-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+function element(name: string, attrs: Record<string, string> = {}): MarkupNode {
+  return { type: 'element', name, attrs, children: [], text: '' };
+}
+
+function textNode(text: string, raw = false): MarkupNode {
+  return { type: 'text', name: '#text', attrs: {}, children: [], text, raw };
+}
+
+// Tolerant XHTML tokenizer producing a node tree rooted at a synthetic element
+export function parseMarkup(src: string): MarkupNode {
+  const root = element('#root');
+  const stack: MarkupNode[] = [root];
+  const re = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|<\?[\s\S]*?\?>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[^>]*?)?)(\/?)>/gi;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  const top = () => stack[stack.length - 1];
+
+  while ((m = re.exec(src))) {
+    if (m.index > last) top().children.push(textNode(decodeEntities(src.slice(last, m.index))));
+    last = re.lastIndex;
+
+    if (m[1] !== undefined) {
+      top().children.push(textNode(m[1], true));
+    } else if (m[2]) {
+      const name = m[2].toLowerCase();
+      const idx = stack.map((n) => n.name).lastIndexOf(name);
+      if (idx > 0) stack.length = idx;
+    } else if (m[3]) {
+      const name = m[3].toLowerCase();
+      const el = element(name, parseAttrs(m[4] || ''));
+      top().children.push(el);
+      if (!m[5] && !VOID_TAGS.has(name)) stack.push(el);
+    }
+  }
+  if (last < src.length) top().children.push(textNode(decodeEntities(src.slice(last))));
+  return root;
+}
+
+function child(node: MarkupNode, name: string): MarkupNode | undefined {
+  return node.children.find((c) => c.type === 'element' && c.name === name);
+}
+
+function macroParam(node: MarkupNode, name: string): string {
+  const p = node.children.find((c) => c.name === 'ac:parameter' && c.attrs['ac:name'] === name);
+  return p ? textContent(p).trim() : '';
+}
+
+export function textContent(node: MarkupNode): string {
+  if (node.type === 'text') return node.text;
+  return node.children.map(textContent).join('');
+}
+
+function oneLine(s: string): string {
+  return s.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+function fence(body: string, lang = ''): string {
+  const ticks = /```/.test(body) ? '````' : '```';
+  return `\n\n${ticks}${lang}\n${body.replace(/^\n+|\s+$/g, '')}\n${ticks}\n\n`;
+}
+
+function quote(body: string): string {
+  return body
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function wrap(marker: string, inner: string): string {
+  const t = inner.trim();
+  return t ? `${marker}${t}${marker}` : '';
+}
+
+const PANEL_LABELS: Record<string, string> = {
+  info: 'Info',
+  note: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+  panel: 'Panel',
+};
+
+// Macros that only make sense in the Confluence UI and carry no readable content
+const SKIPPED_MACROS = new Set(['toc', 'children', 'anchor', 'recently-updated', 'pagetree', 'contentbylabel', 'livesearch']);
+
+class Renderer {
+  constructor(private opts: MarkdownOptions) {}
+
+  render(nodes: MarkupNode[]): string {
+    return nodes.map((n) => this.node(n)).join('');
+  }
+
+  private block(inner: string): string {
+    const t = inner.trim();
+    return t ? `\n\n${t}\n\n` : '';
+  }
+
+  private node(n: MarkupNode): string {
+    if (n.type === 'text') return n.raw ? n.text : n.text.replace(/\s+/g, ' ');
+    const kids = () => this.render(n.children);
+
+    switch (n.name) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return this.block(`${'#'.repeat(Number(n.name[1]))} ${oneLine(kids())}`);
+      case 'p': case 'div': case 'section': case 'article':
+        return this.block(kids());
+      case 'br':
+        return '\n';
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'strong': case 'b':
+        return wrap('**', kids());
+      case 'em': case 'i':
+        return wrap('_', kids());
+      case 's': case 'del': case 'strike':
+        return wrap('~~', kids());
+      case 'code':
+        return wrap('`', textContent(n).replace(/\s+/g, ' '));
+      case 'pre':
+        return fence(textContent(n));
+      case 'blockquote':
+        return this.block(quote(normalize(kids())));
+      case 'a': {
+        const text = oneLine(kids());
+        const href = n.attrs.href || '';
+        if (!href) return text;
+        return `[${text || href}](${href})`;
+      }
+      case 'img':
+        return n.attrs.src ? `![${n.attrs.alt || ''}](${n.attrs.src})` : '';
+      case 'ul': case 'ol':
+        return this.list(n);
+      case 'table':
+        return this.table(n);
+      case 'time':
+        return n.attrs.datetime || kids();
+      case 'script': case 'style':
+        return '';
+      case 'ac:structured-macro': case 'ac:macro':
+        return this.macro(n);
+      case 'ac:link':
+        return this.link(n);
+      case 'ac:image':
+        return this.image(n);
+      case 'ac:task-list':
+        return this.taskList(n);
+      case 'ac:emoticon': case 'ac:placeholder': case 'ac:parameter':
+        return '';
+      case 'ac:rich-text-body': case 'ac:layout': case 'ac:layout-section': case 'ac:layout-cell':
+        return this.block(kids());
+      case 'ac:plain-text-body':
+        return fence(textContent(n));
+      default:
+        return kids();
+    }
+  }
+
+  private list(n: MarkupNode): string {
+    const ordered = n.name === 'ol';
+    const items = n.children.filter((c) => c.name === 'li');
+    const lines = items.map((li, i) => {
+      const marker = ordered ? `${i + 1}. ` : '- ';
+      const body = normalize(this.render(li.children)).replace(/\n{2,}/g, '\n');
+      const indent = ' '.repeat(marker.length);
+      return body
+        .split('\n')
+        .map((line, j) => (j === 0 ? marker + line : line ? indent + line : line))
+        .join('\n');
+    });
+    return lines.length ? `\n\n${lines.join('\n')}\n\n` : '';
+  }
+
+  private table(n: MarkupNode): string {
+    const rows: MarkupNode[] = [];
+    const collect = (node: MarkupNode) => {
+      for (const c of node.children) {
+        if (c.name === 'tr') rows.push(c);
+        else if (['thead', 'tbody', 'tfoot'].includes(c.name)) collect(c);
+      }
+    };
+    collect(n);
+    if (!rows.length) return '';
+
+    const grid = rows.map((r) =>
+      r.children
+        .filter((c) => c.name === 'th' || c.name === 'td')
+        .map((c) => normalize(this.render(c.children)).replace(/\n+/g, '<br>').replace(/\|/g, '\\|')),
+    );
+    const width = Math.max(...grid.map((r) => r.length), 1);
+    const pad = (r: string[]) => [...r, ...Array(width - r.length).fill('')];
+    const line = (r: string[]) => `| ${pad(r).join(' | ')} |`;
+
+    const firstIsHeader = rows[0].children.some((c) => c.name === 'th');
+    const header = firstIsHeader ? grid[0] : Array(width).fill('');
+    const body = firstIsHeader ? grid.slice(1) : grid;
+    const out = [line(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(line)];
+    return `\n\n${out.join('\n')}\n\n`;
+  }
+
+  private macro(n: MarkupNode): string {
+    const name = (n.attrs['ac:name'] || '').toLowerCase();
+    const body = child(n, 'ac:rich-text-body');
+    const plain = child(n, 'ac:plain-text-body');
+
+    if (name === 'code' || name === 'noformat') {
+      return fence(plain ? textContent(plain) : body ? textContent(body) : '', macroParam(n, 'language'));
+    }
+    if (PANEL_LABELS[name]) {
+      const title = macroParam(n, 'title');
+      const label = PANEL_LABELS[name];
+      const heading = name === 'panel' ? `**${title || label}**` : `**${label}${title ? `: ${title}` : ''}**`;
+      const inner = body ? normalize(this.render(body.children)) : '';
+      return this.block(quote(inner ? `${heading}\n\n${inner}` : heading));
+    }
+    if (name === 'expand') {
+      const title = macroParam(n, 'title') || 'Details';
+      const inner = body ? this.render(body.children) : '';
+      return this.block(`**${title}**\n\n${normalize(inner)}`);
+    }
+    if (name === 'jira') {
+      const key = macroParam(n, 'key');
+      return key ? `[${key}]` : '';
+    }
+    if (name === 'status') {
+      const title = macroParam(n, 'title');
+      return title ? `[${title}]` : '';
+    }
+    if (SKIPPED_MACROS.has(name)) return '';
+    if (body) return this.block(this.render(body.children));
+    if (plain) return fence(textContent(plain));
+    return '';
+  }
+
+  private link(n: MarkupNode): string {
+    const page = child(n, 'ri:page') || child(n, 'ri:blog-post');
+    const attachment = child(n, 'ri:attachment');
+    const url = child(n, 'ri:url');
+    const user = child(n, 'ri:user');
+    const anchor = n.attrs['ac:anchor'] || '';
+
+    const plainBody = child(n, 'ac:plain-text-link-body');
+    const richBody = child(n, 'ac:link-body');
+    let text = plainBody ? textContent(plainBody) : richBody ? oneLine(this.render(richBody.children)) : '';
+    text = text.trim();
+
+    let href = '';
+    if (page) {
+      const title = page.attrs['ri:content-title'] || '';
+      const spaceKey = page.attrs['ri:space-key'] || this.opts.spaceKey || '';
+      text = text || title;
+      href = this.pageHref(title, spaceKey);
+    } else if (attachment) {
+      text = text || attachment.attrs['ri:filename'] || '';
+    } else if (url) {
+      href = url.attrs['ri:value'] || '';
+      text = text || href;
+    } else if (user) {
+      text = text || '@user';
+    }
+    if (anchor) {
+      href = `${href}#${anchor}`;
+      text = text || anchor;
+    }
+    return href ? `[${text}](${href})` : text;
+  }
+
+  private pageHref(title: string, spaceKey: string): string {
+    const base = (this.opts.baseUrl || '').replace(/\/$/, '');
+    if (!base || !spaceKey || !title) return '';
+    return `${base}/display/${encodeURIComponent(spaceKey)}/${encodeURIComponent(title).replace(/%20/g, '+')}`;
+  }
+
+  private image(n: MarkupNode): string {
+    const alt = n.attrs['ac:alt'] || n.attrs['ac:title'] || '';
+    const url = child(n, 'ri:url');
+    const attachment = child(n, 'ri:attachment');
+    if (url) return `![${alt}](${url.attrs['ri:value'] || ''})`;
+    if (attachment) return `![${alt || attachment.attrs['ri:filename'] || ''}](${attachment.attrs['ri:filename'] || ''})`;
+    return '';
+  }
+
+  private taskList(n: MarkupNode): string {
+    const tasks = n.children.filter((c) => c.name === 'ac:task');
+    const lines = tasks.map((t) => {
+      const status = child(t, 'ac:task-status');
+      const body = child(t, 'ac:task-body');
+      const done = status ? textContent(status).trim() === 'complete' : false;
+      return `- [${done ? 'x' : ' '}] ${body ? oneLine(this.render(body.children)) : ''}`;
+    });
+    return lines.length ? `\n\n${lines.join('\n')}\n\n` : '';
+  }
+}
+
+// Collapse the blank-line noise produced by nested blocks and trim trailing spaces
+function normalize(md: string): string {
+  return md
+    .split('\n')
+    .map((l) => l.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function storageToMarkdown(storage: string, opts: MarkdownOptions = {}): string {
+  const root = parseMarkup(storage || '');
+  return normalize(new Renderer(opts).render(root.children));
+}
+
+// Jira and the Confluence "view" representation return plain HTML; the same renderer handles both
+export const htmlToMarkdown = storageToMarkdown;
+
+/**
+ * Split Markdown into chunks of at most maxChars, preferring to break at a
+ * blank line, then at a line break, and only then mid-line.
+ */
+export function chunkMarkdown(md: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let rest = md;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < maxChars / 2) cut = window.lastIndexOf('\n');
+    if (cut < maxChars / 2) cut = maxChars;
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).replace(/^\n+/, '');
+  }
+  if (rest.length || !chunks.length) chunks.push(rest);
+  return chunks;
+}
+
+// === Markdown to storage format ===
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function cdata(s: string): string {
+  return `<![CDATA[${s.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function inlineToStorage(text: string): string {
+  // Code spans are cut out first so their contents are not treated as markup
+  const codes: string[] = [];
+  let s = text.replace(/`([^`]+)`/g, (_m, code: string) => {
+    codes.push(`<code>${escapeXml(code)}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+  s = escapeXml(s);
+  s = s.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_m, alt: string, src: string) => `<ac:image ac:alt="${alt}"><ri:url ri:value="${src}" /></ac:image>`);
+  s = s.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_m, label: string, href: string) => `<a href="${href}">${label}</a>`);
+  s = s.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>');
+  s = s.replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1<em>$2</em>');
+  s = s.replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>');
+  s = s.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+  s = s.replace(/ {2,}\n/g, '<br />').replace(/\n/g, ' ');
+  return s.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => codes[Number(i)]);
+}
+
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const PANEL_HEADING_RE = /^\*\*(Info|Note|Tip|Warning|Panel)(?::\s*(.*?))?\*\*\s*$/i;
+
+function indentOf(line: string): number {
+  return (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((c) => c.trim().replace(/\\\|/g, '|'));
+}
+
+function listToStorage(lines: string[]): string {
+  const baseIndent = indentOf(lines[0]);
+  const ordered = /^\d/.test(lines[0].trim());
+  const items: string[][] = [];
+  for (const line of lines) {
+    const m = line.match(LIST_ITEM_RE);
+    if (m && indentOf(line) <= baseIndent + 1) items.push([m[3]]);
+    else if (items.length) items[items.length - 1].push(line);
+  }
+
+  const tasks = items.map((item) => item[0].match(/^\[([ xX])\]\s+(.*)$/));
+  if (tasks.every(Boolean)) {
+    const body = tasks
+      .map((t, i) => {
+        const rest = blocksToStorage(items[i].slice(1));
+        return `<ac:task><ac:task-status>${t![1] === ' ' ? 'incomplete' : 'complete'}</ac:task-status><ac:task-body>${inlineToStorage(t![2])}${rest}</ac:task-body></ac:task>`;
+      })
+      .join('');
+    return `<ac:task-list>${body}</ac:task-list>`;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const body = items
+    .map(([first, ...rest]) => {
+      const nested = rest.filter((l) => l.trim()).length ? blocksToStorage(rest) : '';
+      return `<li>${inlineToStorage(first)}${nested}</li>`;
+    })
+    .join('');
+  return `<${tag}>${body}</${tag}>`;
+}
+
+function blocksToStorage(lines: string[]): string {
+  // Dedent so nested content parses like top-level content
+  const minIndent = Math.min(...lines.filter((l) => l.trim()).map(indentOf), Infinity);
+  const src = Number.isFinite(minIndent) ? lines.map((l) => l.replace(/\t/g, '    ').slice(minIndent)) : lines;
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const line = src[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fenceMatch = line.match(/^(```+|~~~+)\s*([\w+#-]*)/);
+    if (fenceMatch) {
+      const body: string[] = [];
+      i++;
+      while (i < src.length && !src[i].startsWith(fenceMatch[1])) body.push(src[i++]);
+      i++;
+      const lang = fenceMatch[2] ? `<ac:parameter ac:name="language">${escapeXml(fenceMatch[2])}</ac:parameter>` : '';
+      out.push(`<ac:structured-macro ac:name="code">${lang}<ac:plain-text-body>${cdata(body.join('\n'))}</ac:plain-text-body></ac:structured-macro>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      out.push(`<h${heading[1].length}>${inlineToStorage(heading[2])}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      out.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && i + 1 < src.length && /^\s*\|?\s*:?-{3,}/.test(src[i + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < src.length && src[i].trim().startsWith('|')) rows.push(splitTableRow(src[i++]));
+      const th = header.every((h) => !h) ? '' : `<tr>${header.map((h) => `<th>${inlineToStorage(h)}</th>`).join('')}</tr>`;
+      const td = rows.map((r) => `<tr>${r.map((c) => `<td>${inlineToStorage(c.replace(/<br>/g, '  \n'))}</td>`).join('')}</tr>`).join('');
+      out.push(`<table><tbody>${th}${td}</tbody></table>`);
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < src.length && src[i].startsWith('>')) quoted.push(src[i++].replace(/^>\s?/, ''));
+      const firstText = quoted.findIndex((l) => l.trim());
+      const panel = firstText >= 0 ? quoted[firstText].match(PANEL_HEADING_RE) : null;
+      if (panel) {
+        // Round-trips the "> **Warning: title**" blocks produced by storageToMarkdown
+        const name = panel[1].toLowerCase();
+        const title = panel[2] ? `<ac:parameter ac:name="title">${escapeXml(panel[2])}</ac:parameter>` : '';
+        const body = blocksToStorage(quoted.slice(firstText + 1));
+        out.push(`<ac:structured-macro ac:name="${name}">${title}<ac:rich-text-body>${body}</ac:rich-text-body></ac:structured-macro>`);
+      } else {
+        out.push(`<blockquote>${blocksToStorage(quoted)}</blockquote>`);
+      }
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const listLines: string[] = [];
+      const ordered = /^\d/.test(line.trim());
+      while (i < src.length) {
+        const l = src[i];
+        // A top-level item of the other list type starts a new list
+        if (listLines.length && indentOf(l) === 0 && LIST_ITEM_RE.test(l) && /^\d/.test(l.trim()) !== ordered) break;
+        if (!l.trim()) {
+          // A blank line continues the list only if indented or list content follows
+          const next = src[i + 1];
+          if (next && (LIST_ITEM_RE.test(next) || indentOf(next) > 0)) {
+            listLines.push(l);
+            i++;
+            continue;
+          }
+          break;
+        }
+        if (!LIST_ITEM_RE.test(l) && indentOf(l) === 0 && listLines.length && !src[i - 1].trim()) break;
+        listLines.push(l);
+        i++;
+      }
+      out.push(listToStorage(listLines));
+      continue;
+    }
+
+    const para: string[] = [];
+    while (
+      i < src.length &&
+      src[i].trim() &&
+      !/^(#{1,6}\s|```|~~~|>)/.test(src[i]) &&
+      !LIST_ITEM_RE.test(src[i]) &&
+      !(src[i].trim().startsWith('|') && /^\s*\|?\s*:?-{3,}/.test(src[i + 1] || ''))
+    ) {
+      para.push(src[i++]);
+    }
+    out.push(`<p>${inlineToStorage(para.join('\n'))}</p>`);
+  }
+  return out.join('');
+}
+
+/**
+ * Convert Markdown to Confluence storage format. Supports headings,
+ * paragraphs, emphasis, links, images, lists (nested and task lists), tables,
+ * fenced code (code macro), blockquotes and the "> **Info: title**" panel
+ * blocks that storageToMarkdown emits.
+ */
+export function markdownToStorage(md: string): string {
+  return blocksToStorage((md || '').replace(/\r\n?/g, '\n').split('\n'));
+}
@@ -0,0 +1,814 @@
+import { z } from 'zod/v4';
+import { getConfluenceConfig, toolError, ToolContext } from './atlassian.js';
+import { getBackend } from './backend.js';
+import { cacheEnabled, cacheTtlMs, getResponseCache, logCacheSummary, withCache } from './cache.js';
+import { describeFetchError } from './client.js';
+import { confluenceGet, fetchPageMarkdown, wikiBase } from './confluence.js';
+import { buildPageSearchCql, CONTENT_TYPES, CqlError, parsePageSearchFilters, SORT_FIELDS } from './cql.js';
+import { cleanExcerpt, DEFAULT_OUTPUT_PROFILE, formatSearchResults, OUTPUT_PROFILES, OutputProfile, RESULT_FIELDS, ResultField, SearchHit, searchExpand, serverInstructions } from './formats.js';
+import { hasScope, InboundIdentity, Scope } from './inbound-auth.js';
+import { jiraTools } from './jira.js';
+import { logger, requestContext } from './logger.js';
+import { chunkMarkdown } from './markdown.js';
+import { toolCallDuration, toolCalls } from './metrics.js';
+import { navigationTools } from './navigation.js';
+import { credentialFromHeaders, getUserAccessToken, loginUrlFor } from './oauth.js';
+import { denialReason, getPolicy, logPolicySummary, PolicyFilter, policyDenied, redactContent, redactText, restrictCql } from './policy.js';
+import { getProfileStore } from './profiles.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { getSearchIndex, INDEX_SPACES, indexUnavailableReason, searchIndexEnabled, startSearchIndexSync } from './search-index.js';
+import { negotiateProtocolVersion, Session, SessionManager, strictSessions } from './sessions.js';
+import { defineTool, encodeOffset, InvalidParamsError, pageRef, parseArguments, partialFields, policyFields, readOffset, ToolDefinition, toolDescriptor, toolResult } from './tools.js';
+import { writeTools } from './writes.js';
+
+/*
+ * Transport-independent MCP core: the tool registry, sessions and JSON-RPC
+ * dispatch. A transport handles its own framing, describes the exchange
+ * (headers, session id, caller) and passes the message or batch to
+ * handleRpcBody. The HTTP server (server.ts) and the stdio entry point
+ * (stdio.ts) both sit on top of it, so tools, sessions and configuration
+ * behave the same in each.
+ */
+
+// Shared by every transport; idle sessions are evicted after SESSION_TTL_MS
+export const sessionManager = new SessionManager();
+
+// Every tool the server exposes, defined once with input and output schemas
+function getToolDefinitions(): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'searchPages',
+      description:
+        'Full-text search across all Confluence pages. Use this whenever the user asks a question or requests information. Optionally restrict by spaceKey, labels, author, parent page, last-modified date or content type.',
+      input: z.strictObject({
+        query: z.string().trim().min(1).describe('Free-text query to search in page titles and content'),
+        spaceKey: z.string().optional().describe('Optional Confluence space key to restrict the search'),
+        labels: z.array(z.string()).optional().describe('Only match content carrying any of these labels'),
+        contributor: z.string().optional().describe('Only match content edited by this user (account id or username)'),
+        creator: z.string().optional().describe('Only match content created by this user (account id or username)'),
+        ancestorId: z.string().optional().describe('Only match content below this page id in the page tree'),
+        modifiedAfter: z.string().optional().describe('Last modified on or after: YYYY-MM-DD, "YYYY-MM-DD HH:mm" or relative like -7d, -2w, -3m'),
+        modifiedBefore: z.string().optional().describe('Last modified on or before: YYYY-MM-DD, "YYYY-MM-DD HH:mm" or relative like -7d, -2w, -3m'),
+        types: z.array(z.enum(CONTENT_TYPES)).optional().describe('Content types to search (default ["page"])'),
+        titleOnly: z.boolean().optional().describe('Match the query against titles only instead of full text'),
+        sort: z.enum(SORT_FIELDS).optional().describe('Sort order (default relevance)'),
+        sortDirection: z.enum(['asc', 'desc']).optional().describe('Sort direction (default desc for dates, asc for title)'),
+        limit: z.number().int().min(1).max(100).optional().describe('Page size per request (default 50, max 100; service may cap to 50)'),
+        start: z.number().int().min(0).optional().describe('Offset index for pagination (ignored when cursor is provided)'),
+        cursor: z.string().optional().describe('Opaque cursor from a previous response for next/prev page'),
+        includeArchivedSpaces: z.boolean().optional().describe('Include archived spaces in results'),
+        maxResults: z.number().int().min(0).optional().describe('Maximum number of results to return (default 50)'),
+        fields: z.array(z.enum(RESULT_FIELDS)).optional().describe('Optional fields to include with each result (space adds spaceKey and spaceName)'),
+        outputProfile: z.enum(OUTPUT_PROFILES).optional().describe("Result format for this call; defaults to the connection's profile"),
+      }),
+      output: z.looseObject({
+        cql: z.string().optional(),
+        resultSummary: z.string().optional(),
+        results: z.array(pageRef.extend({
+          excerpt: z.string().optional(),
+          lastModified: z.string().optional(),
+          spaceKey: z.string().optional(),
+          spaceName: z.string().optional(),
+          author: z.string().optional(),
+        })),
+        resultCount: z.number(),
+        totalAvailable: z.number().optional(),
+        markdown: z.string().optional().describe('Markdown rendering of the results (markdown profile)'),
+        nextCursor: z.string().optional().describe('Cursor for the next page (compact profile)'),
+        pagination: z.looseObject({
+          start: z.number().nullable(),
+          limit: z.number(),
+          size: z.number(),
+          totalSize: z.number().optional(),
+          nextCursor: z.string().optional(),
+          prevCursor: z.string().optional(),
+        }).optional(),
+        ...partialFields,
+        ...policyFields,
+      }),
+      handler: handleSearchPages,
+    }),
+    ...(searchIndexEnabled ? [defineTool({
+      name: 'searchIndex',
+      description:
+        'Ranked full-text search over the locally indexed Confluence spaces. Returns the best matching passage of each page as a snippet. Falls back to live search when the index is stale or does not cover the request.',
+      input: z.strictObject({
+        query: z.string().trim().min(1).describe('Free-text query'),
+        spaceKey: z.string().trim().optional().describe(`Restrict to one space (indexed: ${INDEX_SPACES.join(', ')})`),
+        labels: z.array(z.string()).optional().describe('Only match pages carrying any of these labels'),
+        maxResults: z.number().int().min(1).max(50).optional().describe('Maximum number of results (default 10, max 50)'),
+      }),
+      output: z.looseObject({
+        results: z.array(pageRef.extend({
+          spaceKey: z.string().optional(),
+          lastModified: z.string().optional(),
+          heading: z.string().optional().describe('Heading of the section the snippet comes from'),
+          snippet: z.string(),
+          score: z.number().optional(),
+        })),
+        resultCount: z.number(),
+        source: z.enum(['index', 'live']),
+        indexedAt: z.string().optional().describe('Oldest last sync time of the searched spaces'),
+        fallbackReason: z.string().optional(),
+        ...partialFields,
+        ...policyFields,
+      }),
+      handler: handleSearchIndex,
+    })] : []),
+    defineTool({
+      name: 'getPage',
+      description:
+        'Fetch a Confluence page by id or URL and return its body as Markdown. Long pages are split into chunks; pass continuationToken from the previous response to read the next chunk.',
+      input: z
+        .strictObject({
+          pageId: z.string().trim().regex(/^\d+$/, 'Expected a numeric page id').optional().describe('Confluence page id (as returned by searchPages)'),
+          url: z.string().trim().optional().describe('Confluence page URL; used when pageId is not provided'),
+          maxChars: z.number().int().min(1000).max(100000).optional().describe('Maximum characters per chunk (default 20000, min 1000, max 100000)'),
+          continuationToken: z.string().optional().describe('Opaque token from a previous getPage response to fetch the next chunk'),
+        })
+        .refine((a) => a.pageId || a.url || a.continuationToken, { message: 'Provide pageId, url or continuationToken', path: ['pageId'] }),
+      output: z.looseObject({
+        id: z.string(),
+        title: z.string(),
+        url: z.string(),
+        spaceKey: z.string().optional(),
+        version: z.number(),
+        lastModified: z.string().optional(),
+        markdown: z.string(),
+        chunk: z.object({ index: z.number(), total: z.number(), totalChars: z.number() }),
+        continuationToken: z.string().optional(),
+      }),
+      handler: handleGetPage,
+    }),
+    ...navigationTools,
+    ...jiraTools,
+    ...writeTools,
+    defineTool({
+      name: 'describeTools',
+      description: 'Summarize what this MCP can do and list all available tools with descriptions.',
+      input: z.strictObject({}),
+      output: z.looseObject({
+        tools: z.array(z.looseObject({ name: z.string(), description: z.string(), inputSchema: z.any(), outputSchema: z.any() })),
+      }),
+      handler: handleDescribeTools,
+    }),
+  ];
+}
+
+// The Confluence write tools need the write scope; everything else read
+const WRITE_TOOL_NAMES = new Set(writeTools.map((t) => t.name));
+
+function requiredScope(toolName: string): Scope {
+  return WRITE_TOOL_NAMES.has(toolName) ? 'write' : 'read';
+}
+
+// Tools the caller may use; with inbound auth off that is every tool
+function getToolDescriptors(identity?: InboundIdentity) {
+  return getToolDefinitions().filter((t) => hasScope(identity, requiredScope(t.name))).map(toolDescriptor);
+}
+
+// === Tool handlers ===
+
+async function handleSearchPages(params: any, ctx: ToolContext = {}) {
+  const query = String(params?.query ?? '').trim();
+  const limit = Math.min(Math.max(Number(params?.limit) || 50, 1), 100);
+  const start = Number(params?.start) || 0;
+  const cursor = String(params?.cursor || '').trim();
+  
+  // Always use 50 for maximum results - no special case needed for "all results" phrases
+  const defaultMaxResults = 50;
+  
+  // Set maxResults with appropriate limits to avoid token overflow
+  const maxResults = Math.max(Number.isFinite(Number(params?.maxResults)) ? Number(params?.maxResults) : defaultMaxResults, 0);
+  
+  // Always auto-paginate, but respect the maxResults limit
+  const autoPaginate = true;
+
+  // Per-call profile and fields, falling back to the connection's profile
+  const profile: OutputProfile = params?.outputProfile ?? ctx.outputProfile ?? DEFAULT_OUTPUT_PROFILE;
+  const fields: ResultField[] = [...new Set<ResultField>(params?.fields ?? [])];
+  
+  logger.info('Page search', { query, maxResults });
+  
+  if (!query) {
+    return toolError('MISSING_INPUT', 'Missing required input: query', { missing: ['query'] });
+  }
+  const deniedSpace = params?.spaceKey ? denialReason({ spaceKey: String(params.spaceKey) }) : undefined;
+  if (deniedSpace) return policyDenied(`Space ${params.spaceKey}`, deniedSpace);
+
+  // Construct the CQL query; every filter is validated and escaped by the builder,
+  // then narrowed to what the access policy allows
+  let cql: string;
+  try {
+    cql = restrictCql(buildPageSearchCql(parsePageSearchFilters(params, query)));
+  } catch (error: any) {
+    if (error instanceof CqlError) {
+      throw new InvalidParamsError([{ field: error.field, message: error.message }]);
+    }
+    throw error;
+  }
+
+  // Require Confluence credentials
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+  const { siteBase } = config;
+  // Data Center search has no cursors and pages by start offset; its cursors are that offset, encoded
+  const offsetPaging = config.flavor === 'datacenter';
+  const firstOffset = offsetPaging ? (cursor ? readOffset(cursor) : start) : 0;
+  
+  // Use the real Confluence API
+  try {
+    // Prepare for pagination
+    const collected: SearchHit[] = [];
+    let nextCursor = cursor;
+    let offset = firstOffset;
+    let firstPage: any = null;
+    let pageCount = 0;
+    const expand = searchExpand(fields);
+    // Results are re-checked against the policy, which needs their space and labels
+    const filter = new PolicyFilter();
+    if (getPolicy()) expand.push(...['content.space', 'content.metadata.labels'].filter((e) => !expand.includes(e)));
+    // Set when a later page fails; results collected so far are still returned
+    let warning = '';
+    
+    // Fetch pages
+    do {
+      const qs = new URLSearchParams({ cql, limit: String(limit) });
+      if (expand.length) qs.set('expand', expand.join(','));
+      if (offsetPaging) {
+        qs.set('start', String(offset));
+      } else {
+        if (!Number.isNaN(start) && Number.isFinite(start) && !nextCursor) qs.set('start', String(start));
+        if (nextCursor) qs.set('cursor', nextCursor);
+      }
+      
+      let page;
+      try {
+        page = await confluenceGet(config, `/rest/api/search?${qs.toString()}`, 'Search');
+      } catch (error: any) {
+        if (!pageCount) throw error;
+        page = toolError('UPSTREAM_ERROR', describeFetchError(error));
+      }
+      if ('error' in page) {
+        if (!pageCount) return toolError(page.error.code, page.error.message, { ...page.error.details, cql });
+        warning = `Results are partial: fetching page ${pageCount + 1} failed (${page.error.message})`;
+        logger.warn(warning, { cql });
+        break;
+      }
+      
+      const data = page.data;
+      firstPage = firstPage || data;
+      
+      const pageItems: SearchHit[] = (data?.results || []).map((r: any) => {
+        const id = r?.content?.id || r?.id;
+        const title = r?.title || r?.content?.title;
+        const webui = r?.content?._links?.webui ?? r?._links?.webui ?? '';
+        let url = '';
+        
+        if (webui) {
+          url = wikiBase(config) + webui;
+        } else if (typeof r?.url === 'string' && /^https?:\/\//.test(r.url)) {
+          url = r.url;
+        }
+        
+        return {
+          id: String(id ?? ''),
+          title: String(title ?? ''),
+          url,
+          excerpt: cleanExcerpt(r?.excerpt) || undefined,
+          lastModified: r?.content?.version?.when || r?.lastModified || undefined,
+          spaceKey: r?.content?.space?.key || r?.space?.key || undefined,
+          spaceName: r?.content?.space?.name || r?.resultGlobalContainer?.title || undefined,
+          author: r?.content?.history?.createdBy?.displayName || r?.content?.version?.by?.displayName || undefined,
+          labels: (r?.content?.metadata?.labels?.results || []).map((l: any) => l?.name).filter(Boolean),
+        };
+      });
+      
+      collected.push(...pageItems.filter((h) => filter.keep(h)));
+      
+      const links = (data?._links || {}) as any;
+      if (offsetPaging) {
+        const received = (data?.results || []).length;
+        offset += received;
+        const more = received > 0 && (Boolean(links?.next) || (typeof data?.totalSize === 'number' && offset < data.totalSize));
+        nextCursor = more ? encodeOffset(offset) : '';
+      } else {
+        nextCursor = typeof links?.next === 'string' && /[?&]cursor=([^&]+)/.test(links.next)
+          ? decodeURIComponent((links.next.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
+          : '';
+      }
+      
+      pageCount++;
+      
+      // Log current progress
+      logger.debug('Fetched search page', { page: pageCount, collected: collected.length, maxResults });
+      ctx.progress?.(Math.min(collected.length, maxResults), maxResults, `Fetched page ${pageCount} (${collected.length} results)`);
+      
+      // If we already have a significant number of results, we should stop to avoid token limit errors
+      if (collected.length >= maxResults) {
+        logger.debug('Reached maxResults limit, stopping pagination', { maxResults });
+        break;
+      }
+    } while (autoPaginate && nextCursor && pageCount < 10); // Increased from 5 to 10 pages for more results
+    
+    logger.info('Search complete', { collected: collected.length, pages: pageCount });
+    
+    // Strictly enforce the maxResults limit
+    const hits = collected.slice(0, maxResults);
+    
+    const data = firstPage || { start: start || 0, limit, size: hits.length, _links: {} };
+    const links = (data?._links || {}) as any;
+    
+    const pagination = offsetPaging ? {
+      start: firstOffset,
+      limit,
+      size: hits.length,
+      totalSize: data?.totalSize ?? undefined,
+      // Only offer a cursor when nothing fetched so far was dropped by maxResults
+      nextCursor: nextCursor && collected.length <= maxResults ? nextCursor : undefined,
+      prevCursor: firstOffset > 0 ? encodeOffset(Math.max(firstOffset - limit, 0)) : undefined,
+      nextUrl: links?.next ? wikiBase(config) + links.next : undefined,
+      prevUrl: links?.prev ? wikiBase(config) + links.prev : undefined,
+    } : {
+      start: data?.start ?? null,
+      limit: data?.limit ?? limit,
+      size: data?.size ?? hits.length,
+      totalSize: data?.totalSize ?? undefined,
+      nextCursor: typeof links?.next === 'string' && /[?&]cursor=([^&]+)/.test(links.next)
+        ? decodeURIComponent((links.next.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
+        : undefined,
+      prevCursor: typeof links?.prev === 'string' && /[?&]cursor=([^&]+)/.test(links.prev)
+        ? decodeURIComponent((links.prev.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
+        : undefined,
+      nextUrl: links?.next ? (siteBase + links.next) : undefined,
+      prevUrl: links?.prev ? (siteBase + links.prev) : undefined,
+    };
+    
+    return formatSearchResults(profile, {
+      query,
+      cql,
+      hits,
+      totalAvailable: collected.length,
+      pagination,
+      fields,
+      ...filter.report(),
+      ...(warning ? { warning, resumeCursor: nextCursor || undefined } : {}),
+    });
+  } catch (error: any) {
+    logger.error('Error searching Confluence API', { cql, err: error });
+    
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { cql });
+  }
+}
+
+async function handleSearchIndex(params: any, ctx: ToolContext = {}) {
+  const query = String(params?.query ?? '').trim();
+  const spaceKeys: string[] = params?.spaceKey ? [params.spaceKey] : [];
+  const maxResults = Math.min(Math.max(Number(params?.maxResults) || 10, 1), 50);
+  const deniedSpace = params?.spaceKey ? denialReason({ spaceKey: String(params.spaceKey) }) : undefined;
+  if (deniedSpace) return policyDenied(`Space ${params.spaceKey}`, deniedSpace);
+
+  const fallbackReason = indexUnavailableReason(ctx, spaceKeys);
+  if (fallbackReason) {
+    logger.info('Search index unavailable, using live search', { reason: fallbackReason });
+    const live: any = await handleSearchPages(
+      { query, spaceKey: params?.spaceKey, labels: params?.labels, maxResults, limit: maxResults, outputProfile: 'raw', fields: ['excerpt', 'space', 'lastModified'] },
+      ctx,
+    );
+    if ('error' in live) return live;
+    return {
+      results: live.results.map((r: any) => ({
+        id: r.id,
+        title: r.title,
+        url: r.url,
+        spaceKey: r.spaceKey,
+        lastModified: r.lastModified,
+        snippet: r.excerpt || '',
+      })),
+      resultCount: live.resultCount,
+      source: 'live',
+      fallbackReason,
+      ...(live.partial ? { partial: true, warning: live.warning, resumeCursor: live.resumeCursor } : {}),
+      ...(live.filteredByPolicy ? { filteredByPolicy: live.filteredByPolicy } : {}),
+    };
+  }
+
+  const index = getSearchIndex();
+  // The index may predate the current policy, so hits are checked again
+  const filter = new PolicyFilter();
+  const hits = index.search(query, { spaceKeys, labels: params?.labels, limit: maxResults }).filter((h) => filter.keep(h));
+  logger.info('Index search', { query, results: hits.length });
+  return {
+    results: hits.map(({ labels, ...hit }) => hit),
+    resultCount: hits.length,
+    source: 'index',
+    indexedAt: index.lastSyncedAt(spaceKeys.length ? spaceKeys : undefined),
+    ...filter.report(),
+  };
+}
+
+// Extract a numeric page id from the common Confluence URL shapes
+function pageIdFromUrl(url: string): string {
+  const m = url.match(/\/pages\/(?:edit-v2\/|viewpage\.action\/)?(\d+)/) || url.match(/[?&]pageId=(\d+)/);
+  return m ? m[1] : '';
+}
+
+// Continuation tokens pin the page version so chunk boundaries stay consistent between calls
+function encodePageToken(token: { id: string; version: number; index: number; maxChars: number }) {
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+}
+
+function decodePageToken(raw: string): { id: string; version: number; index: number; maxChars: number } | null {
+  try {
+    const t = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof t?.id !== 'string' || !Number.isInteger(t?.index) || !Number.isInteger(t?.maxChars)) return null;
+    return t;
+  } catch {
+    return null;
+  }
+}
+
+async function handleGetPage(params: any, ctx: ToolContext = {}) {
+  const rawToken = String(params?.continuationToken || '').trim();
+  const token = rawToken ? decodePageToken(rawToken) : null;
+  if (rawToken && !token) {
+    return toolError('INVALID_INPUT', 'continuationToken is not valid', { continuationToken: rawToken });
+  }
+
+  const url = String(params?.url || '').trim();
+  const pageId = token?.id || String(params?.pageId || '').trim() || (url ? pageIdFromUrl(url) : '');
+  if (!pageId) {
+    return toolError('MISSING_INPUT', url ? `Could not find a page id in URL: ${url}` : 'Missing required input: pageId or url', { missing: ['pageId', 'url'] });
+  }
+  if (!/^\d+$/.test(pageId)) {
+    return toolError('INVALID_INPUT', `Invalid page id: ${pageId}`, { pageId });
+  }
+
+  const maxChars = token?.maxChars ?? Math.min(Math.max(Number(params?.maxChars) || 20000, 1000), 100000);
+
+  const page = await fetchPageMarkdown(pageId, ctx);
+  if ('error' in page) {
+    if (page.error.code === 'NOT_FOUND') return toolError('NOT_FOUND', `Page ${pageId} not found or not accessible`, { pageId });
+    return page;
+  }
+
+  if (token && token.version !== page.version) {
+    return toolError('STALE_CONTINUATION', `Page ${pageId} changed since the continuation token was issued (version ${token.version} -> ${page.version}); request it again without continuationToken`, { pageId, version: page.version });
+  }
+
+  // Redact the whole page first so no pattern escapes by straddling a chunk boundary
+  const markdown = redactText(page.markdown);
+  const chunks = chunkMarkdown(markdown, maxChars);
+  const index = token?.index ?? 0;
+  if (index >= chunks.length) {
+    return toolError('INVALID_INPUT', `continuationToken points past the end of page ${pageId}`, { pageId });
+  }
+
+  const hasMore = index + 1 < chunks.length;
+  return {
+    id: page.id,
+    title: page.title,
+    url: page.url,
+    spaceKey: page.spaceKey,
+    version: page.version,
+    lastModified: page.lastModified,
+    markdown: chunks[index],
+    chunk: { index, total: chunks.length, totalChars: markdown.length },
+    continuationToken: hasMore ? encodePageToken({ id: pageId, version: page.version, index: index + 1, maxChars }) : undefined,
+  };
+}
+
+async function handleDescribeTools(_params: any, ctx: ToolContext = {}) {
+  const tools = getToolDescriptors(ctx.identity);
+  return { tools };
+}
+
+
+// The output profile configured for a connection's credential profile, else the server default
+function outputProfileFor(connectionId: string | undefined): OutputProfile {
+  return getProfileStore().resolve(connectionId)?.profile?.outputProfile ?? DEFAULT_OUTPUT_PROFILE;
+}
+
+// Per-call context: credential profile, and the calling user's own credential when available
+async function buildToolContext(exchange: RpcExchange, session: Session | undefined) {
+  // Sessions stay bound to the connection (credential profile) they were opened on
+  const ctx: ToolContext = { connectionId: session?.connectionId ?? exchange.connectionId, identity: exchange.identity };
+  ctx.outputProfile = outputProfileFor(ctx.connectionId);
+  // Act as the calling user when they forwarded a token or signed in via OAuth for this session
+  ctx.userCredential = credentialFromHeaders(exchange.headers);
+  if (!ctx.userCredential && session?.oauthAccountId) {
+    const accessToken = await getUserAccessToken(session.oauthAccountId);
+    if (accessToken) ctx.userCredential = { kind: 'oauth', accessToken };
+  }
+  // Sign-in goes through the HTTP server's /oauth routes
+  if (session && exchange.transport === 'http') ctx.loginUrl = loginUrlFor(session);
+  return ctx;
+}
+
+// Map structured tool errors onto JSON-RPC errors for resources/* methods
+function resourceError(error: { code: string; message: string; details?: any }) {
+  if (error.code === 'NOT_FOUND') return { code: -32002, message: error.message, data: error.details };
+  if (error.code === 'INVALID_INPUT') return { code: -32602, message: error.message, data: error.details };
+  return { code: -32603, message: error.message, data: { code: error.code, ...error.details } };
+}
+
+// === JSON-RPC handler ===
+
+// Unexpected failures become the same JSON-RPC error on every transport
+function internalError(id: any, what: string, error: any) {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: {
+      code: -32603,
+      message: `Internal error processing ${what}: ${error?.message || 'Unknown error'}`,
+      data: { errorType: error?.name || 'Error' },
+    },
+  };
+}
+
+// JSON-RPC error code for calls the caller's scopes do not allow; sent with HTTP 403 outside batches
+export const FORBIDDEN = -32003;
+// JSON-RPC error code for an initialize refused because MCP_MAX_SESSIONS are open; sent with HTTP 503
+export const TOO_MANY_SESSIONS = -32004;
+
+function normalizeMethod(msg: any) {
+  const method = typeof msg?.method === 'string' ? msg.method : '';
+  return method.toLowerCase().replace(/[._]/g, '/');
+}
+
+// Responses (to server-initiated requests) carry result or error instead of a method
+function isResponseMessage(msg: any) {
+  return !!msg && typeof msg === 'object' && msg.method === undefined && ('result' in msg || 'error' in msg);
+}
+
+function isNotificationMessage(msg: any) {
+  return typeof msg?.method === 'string' && msg.id === undefined;
+}
+
+// Everything one batch's messages share: the exchange carrying them, its session and where progress goes
+interface MessageScope {
+  exchange: RpcExchange;
+  session?: Session;
+  batch: boolean;
+  // Delivers notifications while the batch runs; unset when the transport cannot
+  notify?: (message: any) => void;
+}
+
+// Handle one JSON-RPC message; resolves with its response, or undefined for notifications
+async function handleMessage(msg: any, scope: MessageScope): Promise<any> {
+  const { exchange, session } = scope;
+  const { connectionId, clientIp, identity } = exchange;
+  if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+    return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request: expected a JSON-RPC message object' } };
+  }
+
+  const id = msg.id;
+  const method = typeof msg.method === 'string' ? msg.method : '';
+  const norm = normalizeMethod(msg);
+  const notification = isNotificationMessage(msg);
+
+  logger.info(notification ? 'MCP notification' : 'MCP request', { clientIp, id, method, norm });
+
+  // Single messages without a method are treated as initialize for clients that omit it
+  if (norm === 'initialize' || norm === 'mcp/initialize' || (!method && !scope.batch)) {
+    const protocolVersion = negotiateProtocolVersion(msg.params?.protocolVersion);
+    const newSession = sessionManager.create({
+      clientIp,
+      protocolVersion,
+      clientInfo: msg.params?.clientInfo,
+      connectionId,
+      transport: exchange.transport,
+      identity: identity && { kind: identity.kind, subject: identity.subject, scopes: identity.scopes },
+    });
+    if (!newSession) {
+      logger.warn('Refused initialize: session limit reached', { clientIp, active: sessionManager.size });
+      return { jsonrpc: '2.0', id: id ?? null, error: { code: TOO_MANY_SESSIONS, message: 'Too many open sessions: try again later' } };
+    }
+    exchange.onSession?.(newSession);
+
+    logger.info('Initializing session', { sessionId: newSession.id, clientIp, transport: exchange.transport, protocolVersion, requestedVersion: msg.params?.protocolVersion, client: identity?.subject });
+
+    const result = {
+      protocolVersion,
+      serverInfo: { name: 'Atlassian MCP Server', version: '0.1.1' },
+      capabilities: { tools: { list: true, call: true }, resources: { listChanged: true } },
+      tools: getToolDescriptors(identity),
+      instructions: serverInstructions(outputProfileFor(connectionId)),
+    };
+    return { jsonrpc: '2.0', id: id ?? null, result };
+  }
+
+  if (!method) {
+    return { jsonrpc: '2.0', id: id ?? null, error: { code: -32600, message: 'Invalid Request: missing method' } };
+  }
+
+  if (norm === 'notifications/initialized' || norm === 'mcp/notifications/initialized') {
+    logger.info('Session initialized');
+    if (session) session.initialized = true;
+    return notification ? undefined : { jsonrpc: '2.0', id, result: {} };
+  }
+
+  // Other notifications (cancelled, roots/list_changed, ...) need no action
+  if (notification) return undefined;
+
+  if (norm === 'tools/list' || norm === 'mcp/tools/list') {
+    return { jsonrpc: '2.0', id, result: { tools: getToolDescriptors(identity) } };
+  }
+
+  if (norm === 'resources/list' || norm === 'mcp/resources/list') {
+    try {
+      const out = await listResources(msg.params, await buildToolContext(exchange, session));
+      return 'error' in out ? { jsonrpc: '2.0', id, error: resourceError(out.error) } : { jsonrpc: '2.0', id, result: redactContent(out) };
+    } catch (error: any) {
+      logger.error('Error listing resources', { err: error });
+      return internalError(id, 'resources/list', error);
+    }
+  }
+
+  if (norm === 'resources/templates/list' || norm === 'mcp/resources/templates/list') {
+    return { jsonrpc: '2.0', id, result: { resourceTemplates } };
+  }
+
+  if (norm === 'resources/read' || norm === 'mcp/resources/read') {
+    try {
+      const out = await readResource(msg.params, await buildToolContext(exchange, session));
+      return 'error' in out ? { jsonrpc: '2.0', id, error: resourceError(out.error) } : { jsonrpc: '2.0', id, result: redactContent(out) };
+    } catch (error: any) {
+      logger.error('Error reading resource', { uri: msg.params?.uri, err: error });
+      return internalError(id, 'resources/read', error);
+    }
+  }
+
+  if (norm === 'tools/call' || norm === 'mcp/tools/call' || norm === 'tool/call') {
+    if (strictSessions && !session?.initialized) {
+      return { jsonrpc: '2.0', id, error: { code: -32002, message: 'Session not initialized: complete initialize and send notifications/initialized before calling tools' } };
+    }
+
+    const { name, arguments: args = {} } = msg.params || {};
+    const tool = getToolDefinitions().find((t) => t.name === name);
+    if (!tool) {
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `Tool not found: ${name}` } };
+    }
+    const needed = requiredScope(tool.name);
+    if (!hasScope(identity, needed)) {
+      logger.warn('Tool call refused: missing scope', { tool: name, scope: needed, client: identity?.subject });
+      toolCalls.inc({ tool: name, outcome: 'forbidden' });
+      return { jsonrpc: '2.0', id, error: { code: FORBIDDEN, message: `Forbidden: ${name} requires the ${needed} scope`, data: { scope: needed } } };
+    }
+
+    // Argument values can hold page bodies and user text; only their names are logged above debug
+    logger.info('Tool call', { tool: name, argNames: Object.keys(args || {}) });
+    logger.debug('Tool call arguments', { tool: name, args });
+    const started = performance.now();
+    const finish = (outcome: string) => {
+      toolCalls.inc({ tool: name, outcome });
+      toolCallDuration.observeSince({ tool: name }, started);
+      logger.info('Tool call finished', { tool: name, outcome, durationMs: Math.round(performance.now() - started) });
+    };
+
+    try {
+      const ctx = await buildToolContext(exchange, session);
+      // Per the MCP spec progress is only reported when the caller supplied a progressToken
+      const progressToken = msg.params?._meta?.progressToken;
+      const notify = scope.notify;
+      if (notify && progressToken !== undefined) {
+        ctx.progress = (progress, total, message) => {
+          notify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress, total, message } });
+        };
+      }
+
+      const writes = needed === 'write';
+      const { out, cache } = await withCache(name, writes ? 0 : cacheTtlMs(name), () => tool.handler(parseArguments(tool, args), ctx));
+      finish(out?.error ? 'error' : 'success');
+      // Cached reads of the profile written to may be out of date now
+      if (writes && cacheEnabled && !out?.error && !out?.dryRun) getResponseCache().purge(getProfileStore().resolve(ctx.connectionId)?.id);
+      // Redaction is applied here so no tool can return unmasked content
+      const result = toolResult(redactContent(out));
+      return { jsonrpc: '2.0', id, result: cache ? { ...result, _meta: { cache } } : result };
+    } catch (error: any) {
+      if (error instanceof InvalidParamsError) {
+        finish('invalid_params');
+        logger.warn('Invalid tool arguments', { tool: name, issues: error.issues });
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32602, message: `Invalid arguments for ${msg.params?.name}: ${error.message}`, data: { issues: error.issues } },
+        };
+      }
+      finish('exception');
+      logger.error('Error handling tool call', { tool: name, err: error });
+      return internalError(id, 'tool call', error);
+    }
+  }
+
+  if (norm === 'ping' || norm === 'mcp/ping') {
+    return { jsonrpc: '2.0', id, result: { ok: true } };
+  }
+
+  return { jsonrpc: '2.0', id, error: { code: -32601, message: `Unknown method: ${method}` } };
+}
+
+// Sessions belong to the client that opened them
+export function sameClient(session: Session, identity: InboundIdentity | undefined) {
+  return session.identity?.kind === identity?.kind && session.identity?.subject === identity?.subject;
+}
+
+// What a transport knows about the exchange carrying one message or batch
+export interface RpcExchange {
+  transport: 'http' | 'stdio';
+  // Request headers; used for per-user Atlassian credentials
+  headers: Record<string, string | string[] | undefined>;
+  // Mcp-Session-Id the client sent, if any
+  sessionId?: string;
+  // connectionId route segment selecting a credential profile
+  connectionId?: string;
+  clientIp: string;
+  // Authenticated caller, when inbound auth is on (or the local user over stdio)
+  identity?: InboundIdentity;
+  // Told about the session an initialize opened
+  onSession?: (session: Session) => void;
+  /**
+   * Called once the messages are accepted and before any is handled. Returns
+   * where notifications sent while they run (progress) should go, or
+   * undefined when the transport cannot deliver them.
+   */
+  begin?: (messages: any[], session?: Session) => ((message: any) => void) | undefined;
+}
+
+// What a transport sends back: an HTTP-style status and the JSON-RPC payload, if any
+export interface RpcReply {
+  status: number;
+  payload?: any;
+}
+
+export function isToolCall(msg: any) {
+  return ['tools/call', 'mcp/tools/call', 'tool/call'].includes(normalizeMethod(msg));
+}
+
+// An empty body is kept as {} (treated as initialize) for clients that probe with a bare message
+export function parseRpcBody(raw: string): { body: any } | RpcReply {
+  if (!raw.trim()) return { body: {} };
+  try {
+    return { body: JSON.parse(raw) };
+  } catch (error: any) {
+    logger.warn('Malformed JSON-RPC body', { reason: error?.message });
+    return { status: 400, payload: { jsonrpc: '2.0', id: null, error: { code: -32700, message: `Parse error: ${error?.message || 'invalid JSON'}` } } };
+  }
+}
+
+/**
+ * Handle a parsed JSON-RPC message or batch: resolve its session, run the
+ * messages and collect the responses. Status 202 means there is nothing to
+ * send back (only notifications and responses were received).
+ */
+export async function handleRpcBody(body: any, exchange: RpcExchange): Promise<RpcReply> {
+  const batch = Array.isArray(body);
+  const messages: any[] = batch ? body : [body];
+  if (!messages.length) {
+    return { status: 400, payload: { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request: empty batch' } } };
+  }
+
+  const opensSession = (m: any) => normalizeMethod(m) === 'initialize' || normalizeMethod(m) === 'mcp/initialize' || (!batch && !m?.method);
+  const exempt = (m: any) => opensSession(m) || normalizeMethod(m) === 'ping' || normalizeMethod(m) === 'mcp/ping';
+
+  // Resolve the session; initialize always starts a new one, whatever id it carries
+  const requestSessionId = exchange.sessionId || '';
+  let session: Session | undefined;
+  if (requestSessionId && !messages.every(opensSession)) {
+    session = sessionManager.get(requestSessionId);
+    // A session opened on one connection, or by another client, cannot be used here
+    if (session && (session.connectionId !== exchange.connectionId || !sameClient(session, exchange.identity))) session = undefined;
+    if (!session) {
+      logger.info('Session not found or expired', { requestedSessionId: requestSessionId });
+      return { status: 404, payload: { jsonrpc: '2.0', id: batch ? null : body?.id ?? null, error: { code: -32001, message: `Session not found: ${requestSessionId}. Send initialize to start a new session.` } } };
+    }
+  } else if (!requestSessionId && strictSessions && !messages.every(exempt)) {
+    return { status: 400, payload: { jsonrpc: '2.0', id: batch ? null : body?.id ?? null, error: { code: -32000, message: 'Missing Mcp-Session-Id header. Send initialize first.' } } };
+  }
+
+  const store = requestContext.getStore();
+  if (store && session) store.sessionId = session.id;
+
+  const scope: MessageScope = { exchange, session, batch, notify: exchange.begin?.(messages, session) };
+
+  // Batched messages run concurrently; responses keep the batch order
+  const responses = (await Promise.all(messages.filter((m) => !isResponseMessage(m)).map((m) => handleMessage(m, scope)))).filter(Boolean);
+
+  // Only notifications and/or responses: acknowledge without a body
+  if (!responses.length) return { status: 202 };
+
+  const payload = batch ? responses : responses[0];
+  const status = batch ? 200 : payload?.error?.code === FORBIDDEN ? 403 : payload?.error?.code === TOO_MANY_SESSIONS ? 503 : 200;
+  return { status, payload };
+}
+
+// Log the effective configuration and start the background work every transport needs
+export function startServices() {
+  getProfileStore().logSummary();
+  logger.info('Atlassian backend', { backend: getBackend().name });
+  logPolicySummary();
+  logCacheSummary();
+  sessionManager.startSweeper();
+  startSearchIndexSync();
+}
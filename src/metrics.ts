@@ -0,0 +1,112 @@
+/*
+ * Minimal Prometheus metrics registry rendered in the text exposition format
+ * at GET /metrics. Label values come from a bounded set (tool names, HTTP
+ * methods, status codes, configured hosts) so series counts stay small.
+ */
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}) {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+interface Metric {
+  render(): string[];
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((b, i) => {
+      if (value <= b) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  // Observe the seconds elapsed since start (a performance.now() reading)
+  observeSince(labels: Labels, start: number) {
+    this.observe(labels, (performance.now() - start) / 1000);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((b, i) => lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(b) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// Value read at scrape time
+class Gauge implements Metric {
+  constructor(private name: string, private help: string, private collect: () => { labels?: Labels; value: number }[]) {}
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    for (const { labels = {}, value } of this.collect()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+const registry: Metric[] = [];
+
+function register<T extends Metric>(metric: T): T {
+  registry.push(metric);
+  return metric;
+}
+
+export const toolCalls = register(new Counter('mcp_tool_calls_total', 'Tool calls by tool and outcome (success, error, invalid_params, forbidden, exception)'));
+export const toolCallDuration = register(new Histogram('mcp_tool_call_duration_seconds', 'Tool call latency in seconds'));
+export const upstreamRequests = register(new Counter('atlassian_upstream_requests_total', 'Upstream Atlassian HTTP attempts by host, method and status (or network/timeout)'));
+export const upstreamDuration = register(new Histogram('atlassian_upstream_request_duration_seconds', 'Upstream Atlassian HTTP attempt latency in seconds'));
+export const cacheLookups = register(new Counter('mcp_cache_lookups_total', 'Response cache lookups by tool and result (hit, miss, revalidated, coalesced)'));
+export const httpRequests = register(new Counter('mcp_http_requests_total', 'Inbound HTTP requests by method, route and status'));
+
+export function registerGauge(name: string, help: string, collect: () => { labels?: Labels; value: number }[]) {
+  register(new Gauge(name, help, collect));
+}
+
+export function renderMetrics(): string {
+  return registry.flatMap((m) => m.render()).join('\n') + '\n';
+}
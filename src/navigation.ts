@@ -0,0 +1,340 @@
+import { z } from 'zod/v4';
+import { AtlassianConfig, getConfluenceConfig, toolError, ToolContext } from './atlassian.js';
+import { describeFetchError } from './client.js';
+import { checkPagePolicy, confluenceGet, SpaceSummary, toSpaceSummary, webUrl } from './confluence.js';
+import { logger } from './logger.js';
+import { contentLabels, denialReason, getPolicy, PolicyFilter, policyDenied } from './policy.js';
+import { defineTool, encodeOffset, InvalidParamsError, pageRef, partialFields, policyFields, readOffset } from './tools.js';
+
+/*
+ * Browsing tools for Confluence structure: listSpaces, getChildren (with an
+ * optional depth-limited tree) and getAncestors. URLs are built from each
+ * item's webui link the same way searchPages builds them.
+ *
+ * The v1 space and child endpoints page by start offset; cursors returned
+ * here are that offset, base64url encoded, so they stay opaque to clients.
+ */
+
+const SPACE_TYPES = ['global', 'personal'] as const;
+const SPACE_STATUSES = ['current', 'archived'] as const;
+const MAX_DEPTH = 5;
+const MAX_TREE_NODES = 500;
+
+const pageIdField = z.string().trim().regex(/^\d+$/, 'Expected a numeric page id');
+const cursorField = z.string().optional().describe('Opaque cursor from a previous response for the next page');
+
+const spaceSummary = z.looseObject({
+  key: z.string(),
+  name: z.string(),
+  type: z.string(),
+  description: z.string(),
+  status: z.string().optional(),
+  url: z.string(),
+  homepageId: z.string().optional(),
+});
+
+export const navigationTools = [
+  defineTool({
+    name: 'listSpaces',
+    description:
+      'List Confluence spaces with key, name, type, description and URL. Filter by type and status (or archived); paginated with cursor and maxResults like searchPages.',
+    input: z.strictObject({
+      type: z.enum(SPACE_TYPES).optional().describe('Only spaces of this type (default: all)'),
+      status: z.enum(SPACE_STATUSES).optional().describe('Only spaces with this status (default: current)'),
+      archived: z.boolean().optional().describe('Shorthand for status: true lists archived spaces, false current ones'),
+      spaceKeys: z.array(z.string().trim().min(1)).optional().describe('Only these space keys'),
+      limit: z.number().int().min(1).max(100).optional().describe('Page size per request (default 50, max 100)'),
+      cursor: cursorField,
+      maxResults: z.number().int().min(0).optional().describe('Maximum number of spaces to return (default 100)'),
+    }),
+    output: z.looseObject({
+      spaces: z.array(spaceSummary),
+      resultCount: z.number(),
+      nextCursor: z.string().optional(),
+      ...partialFields,
+      ...policyFields,
+    }),
+    handler: handleListSpaces,
+  }),
+  defineTool({
+    name: 'getChildren',
+    description:
+      'List the child pages of a Confluence page with titles and URLs. Set depth above 1 for a nested tree of descendants (max 5 levels), also returned as an indented outline.',
+    input: z.strictObject({
+      pageId: pageIdField.describe('Id of the parent page (e.g. a space homepage id from listSpaces)'),
+      depth: z.number().int().min(1).max(MAX_DEPTH).optional().describe('Levels of descendants to include (default 1, max 5)'),
+      cursor: cursorField.describe('Opaque cursor for the next page of direct children (depth 1 only)'),
+      maxResults: z.number().int().min(1).max(MAX_TREE_NODES).optional().describe(`Maximum number of pages to return across all levels (default 100, max ${MAX_TREE_NODES})`),
+    }),
+    output: z.looseObject({
+      pageId: z.string(),
+      depth: z.number(),
+      children: z.array(pageRef).describe('Child pages; with depth > 1 each carries its own children array'),
+      resultCount: z.number(),
+      nextCursor: z.string().optional(),
+      outline: z.string().optional().describe('Indented Markdown outline of the tree (depth > 1)'),
+      truncated: z.boolean().optional(),
+      warning: z.string().optional(),
+      ...policyFields,
+    }),
+    handler: handleGetChildren,
+  }),
+  defineTool({
+    name: 'getAncestors',
+    description: 'Return the chain of parent pages from the space root down to a Confluence page, as a breadcrumb with titles and URLs.',
+    input: z.strictObject({
+      pageId: pageIdField.describe('Id of the page'),
+    }),
+    output: z.looseObject({
+      page: pageRef,
+      spaceKey: z.string().optional(),
+      ancestors: z.array(pageRef),
+      breadcrumb: z.string(),
+      ...policyFields,
+    }),
+    handler: handleGetAncestors,
+  }),
+];
+
+interface PageNode {
+  id: string;
+  title: string;
+  url: string;
+  children?: PageNode[];
+}
+
+function readPageId(params: any) {
+  const pageId = String(params?.pageId ?? '').trim();
+  if (!pageId) {
+    return toolError('MISSING_INPUT', 'Missing required input: pageId', { missing: ['pageId'] });
+  }
+  if (!/^\d+$/.test(pageId)) {
+    return toolError('INVALID_INPUT', `Invalid page id: ${pageId}`, { pageId });
+  }
+  return { pageId };
+}
+
+// Stands in for an ancestor the access policy hides
+const HIDDEN_PAGE: PageNode = { id: '', title: '(hidden by access policy)', url: '' };
+
+function toPageNode(config: AtlassianConfig, c: any): PageNode {
+  return { id: String(c?.id), title: c?.title || '', url: webUrl(config, c?._links?.webui) };
+}
+
+export async function handleListSpaces(params: any, ctx: ToolContext = {}) {
+  const limit = Math.min(Math.max(Number(params?.limit) || 50, 1), 100);
+  const maxResults = Math.max(Number.isFinite(Number(params?.maxResults)) ? Number(params?.maxResults) : 100, 0);
+  const type: string = params?.type || '';
+  let status: string = params?.status || '';
+
+  if (typeof params?.archived === 'boolean') {
+    const implied = params.archived ? 'archived' : 'current';
+    if (status && status !== implied) {
+      throw new InvalidParamsError([{ field: 'archived', message: `archived: ${params.archived} contradicts status: ${status}` }]);
+    }
+    status = implied;
+  }
+  const start = readOffset(params?.cursor);
+  const keys: string[] = (Array.isArray(params?.spaceKeys) ? params.spaceKeys : []).map((k: any) => String(k).trim()).filter(Boolean);
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const spaces: SpaceSummary[] = [];
+    const filter = new PolicyFilter();
+    let offset = start;
+    let hasMore = true;
+    let pageCount = 0;
+    // Set when a later page fails; spaces collected so far are still returned
+    let warning = '';
+
+    while (hasMore && spaces.length < maxResults && pageCount < 10) {
+      const qs = new URLSearchParams({
+        limit: String(Math.min(limit, maxResults - spaces.length)),
+        start: String(offset),
+        status: status || 'current',
+        expand: 'description.plain,homepage',
+      });
+      if (type) qs.set('type', type);
+      for (const key of keys) qs.append('spaceKey', key);
+
+      let page;
+      try {
+        page = await confluenceGet(config, `/rest/api/space?${qs.toString()}`, 'Spaces');
+      } catch (error: any) {
+        if (!pageCount) throw error;
+        page = toolError('UPSTREAM_ERROR', describeFetchError(error));
+      }
+      if ('error' in page) {
+        if (!pageCount) return page;
+        warning = `Results are partial: fetching page ${pageCount + 1} failed (${page.error.message})`;
+        logger.warn(warning);
+        break;
+      }
+
+      const results: any[] = page.data?.results || [];
+      spaces.push(...results.map((s) => toSpaceSummary(config, s)).filter((s) => filter.keep({ spaceKey: s.key })));
+      offset += results.length;
+      hasMore = results.length > 0 && Boolean(page.data?._links?.next);
+      pageCount++;
+      ctx.progress?.(Math.min(spaces.length, maxResults), maxResults, `Fetched page ${pageCount} (${spaces.length} spaces)`);
+    }
+
+    logger.info('Listed spaces', { count: spaces.length, pages: pageCount });
+    return {
+      spaces,
+      resultCount: spaces.length,
+      nextCursor: hasMore ? encodeOffset(offset) : undefined,
+      ...(warning ? { partial: true, warning, resumeCursor: encodeOffset(offset) } : {}),
+      ...filter.report(),
+    };
+  } catch (error: any) {
+    logger.error('Error listing spaces from Confluence API', { err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error));
+  }
+}
+
+// One page of direct children starting at offset; fetched counts children the policy removed
+async function fetchChildPage(config: AtlassianConfig, pageId: string, offset: number, limit: number, filter: PolicyFilter) {
+  const qs = new URLSearchParams({ limit: String(limit), start: String(offset) });
+  if (getPolicy()) qs.set('expand', 'space,metadata.labels');
+  const page = await confluenceGet(config, `/rest/api/content/${pageId}/child/page?${qs.toString()}`, `Page ${pageId}`);
+  if ('error' in page) return page;
+  const results: any[] = page.data?.results || [];
+  return {
+    children: results.filter((c) => filter.keep({ spaceKey: c?.space?.key, labels: contentLabels(c) })).map((c) => toPageNode(config, c)),
+    fetched: results.length,
+    hasMore: results.length > 0 && Boolean(page.data?._links?.next),
+  };
+}
+
+function outline(nodes: PageNode[], indent = ''): string[] {
+  return nodes.flatMap((n) => [`${indent}- [${n.title}](${n.url})`, ...outline(n.children || [], indent + '  ')]);
+}
+
+export async function handleGetChildren(params: any, ctx: ToolContext = {}) {
+  const id = readPageId(params);
+  if ('error' in id) return id;
+  const { pageId } = id;
+
+  const depth = Math.min(Math.max(Math.floor(Number(params?.depth) || 1), 1), MAX_DEPTH);
+  const maxResults = Math.min(Math.max(Number.isFinite(Number(params?.maxResults)) ? Number(params?.maxResults) : 100, 1), MAX_TREE_NODES);
+  const start = readOffset(params?.cursor);
+  if (start && depth > 1) {
+    throw new InvalidParamsError([{ field: 'cursor', message: 'cursor can only be used with depth 1' }]);
+  }
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const filter = new PolicyFilter();
+    if (getPolicy()) {
+      const denied = await checkPagePolicy(config, pageId);
+      if (denied) return denied;
+    }
+
+    if (depth === 1) {
+      const page = await fetchChildPage(config, pageId, start, Math.min(maxResults, 100), filter);
+      if ('error' in page) return page;
+      return {
+        pageId,
+        depth,
+        children: page.children,
+        resultCount: page.children.length,
+        nextCursor: page.hasMore ? encodeOffset(start + page.fetched) : undefined,
+        ...filter.report(),
+      };
+    }
+
+    // Breadth-first so a node cap trims the deepest levels first
+    const roots: PageNode[] = [];
+    let level: { id: string; into: PageNode[] }[] = [{ id: pageId, into: roots }];
+    let total = 0;
+    let truncated = false;
+
+    for (let d = 1; d <= depth && level.length && !truncated; d++) {
+      const next: { id: string; into: PageNode[] }[] = [];
+      for (const parent of level) {
+        let offset = 0;
+        let hasMore = true;
+        while (hasMore) {
+          if (total >= maxResults) {
+            truncated = true;
+            break;
+          }
+          const page = await fetchChildPage(config, parent.id, offset, Math.min(maxResults - total, 100), filter);
+          if ('error' in page) {
+            if (d === 1) return page;
+            logger.warn('Skipping children of page', { pageId: parent.id, reason: page.error.message });
+            break;
+          }
+          for (const child of page.children) {
+            if (d < depth) child.children = [];
+            parent.into.push(child);
+            if (child.children) next.push({ id: child.id, into: child.children });
+          }
+          total += page.children.length;
+          offset += page.fetched;
+          hasMore = page.hasMore;
+        }
+        if (truncated) break;
+      }
+      ctx.progress?.(d, depth, `Fetched level ${d} (${total} pages)`);
+      level = next;
+    }
+
+    logger.info('Fetched page tree', { pageId, depth, count: total, truncated });
+    return {
+      pageId,
+      depth,
+      children: roots,
+      resultCount: total,
+      outline: outline(roots).join('\n'),
+      ...(truncated ? { truncated: true, warning: `Tree truncated at ${maxResults} pages; raise maxResults or lower depth` } : {}),
+      ...filter.report(),
+    };
+  } catch (error: any) {
+    logger.error('Error fetching child pages from Confluence API', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
+
+export async function handleGetAncestors(params: any, ctx: ToolContext = {}) {
+  const id = readPageId(params);
+  if ('error' in id) return id;
+  const { pageId } = id;
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const page = await confluenceGet(
+      config,
+      `/rest/api/content/${pageId}?expand=ancestors,ancestors.space,ancestors.metadata.labels,space,metadata.labels`,
+      `Page ${pageId}`,
+    );
+    if ('error' in page) return page;
+    const spaceKey = page.data?.space?.key;
+    const denied = denialReason({ spaceKey, labels: contentLabels(page.data) });
+    if (denied) return policyDenied(`Page ${pageId}`, denied);
+
+    // Confluence lists ancestors from the root down to the direct parent; denied ones keep their place in the chain
+    const filter = new PolicyFilter();
+    const ancestors: PageNode[] = (page.data?.ancestors || []).map((a: any) =>
+      filter.keep({ spaceKey: a?.space?.key ?? spaceKey, labels: contentLabels(a) }) ? toPageNode(config, a) : HIDDEN_PAGE,
+    );
+    const self = toPageNode(config, page.data);
+    return {
+      page: self,
+      spaceKey: spaceKey || undefined,
+      ancestors,
+      breadcrumb: [...ancestors, self].map((a) => a.title).join(' > '),
+      ...filter.report(),
+    };
+  } catch (error: any) {
+    logger.error('Error fetching ancestors from Confluence API', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
@@ -0,0 +1,388 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { httpFetch } from './atlassian.js';
+import { inboundAuthEnabled } from './inbound-auth.js';
+import { logger } from './logger.js';
+
+/*
+ * Per-user Atlassian credentials.
+ *
+ * Two ways for a request to act as the real user instead of the profile's
+ * service account:
+ * - Pass-through (ATLASSIAN_AUTH_PASSTHROUGH=true): the caller's
+ *   X-Atlassian-Authorization header, or Authorization header when inbound
+ *   auth is off, is forwarded.
+ *   "Bearer <OAuth access token>" goes through the api.atlassian.com gateway.
+ *   "Basic <email:api-token>" goes straight to the site.
+ * - OAuth 2.0 (3LO) authorization-code flow for clients that cannot supply a
+ *   token: /oauth/login -> Atlassian consent -> /oauth/callback binds the
+ *   user to the MCP session. Refresh tokens are stored AES-256-GCM encrypted in
+ *   ATLASSIAN_OAUTH_TOKEN_STORE; access tokens live only in memory.
+ *
+ * Sign-in links carry a short-lived, single-use login id rather than the MCP
+ * session id. The callback only binds the account while the session still
+ * belongs to the inbound client the link was issued to, and never replaces
+ * an account the session is already signed in with; a different account
+ * needs a new session.
+ *
+ * Environment variables for 3LO: ATLASSIAN_OAUTH_CLIENT_ID,
+ * ATLASSIAN_OAUTH_CLIENT_SECRET, ATLASSIAN_OAUTH_REDIRECT_URI (must end in
+ * /oauth/callback), ATLASSIAN_OAUTH_ENCRYPTION_KEY, and optionally
+ * ATLASSIAN_OAUTH_SCOPES and ATLASSIAN_OAUTH_TOKEN_STORE.
+ */
+
+const AUTH_BASE = 'https://auth.atlassian.com';
+export const API_GATEWAY = 'https://api.atlassian.com';
+const DEFAULT_SCOPES = [
+  'read:confluence-content.all',
+  'read:confluence-space.summary',
+  'search:confluence',
+  'read:jira-work',
+  'read:jira-user',
+  'read:me',
+  'offline_access',
+].join(' ');
+const STATE_TTL_MS = 10 * 60_000;
+const LOGIN_TTL_MS = 10 * 60_000;
+const RESOURCES_TTL_MS = 10 * 60_000;
+
+export type UserCredential =
+  | { kind: 'oauth'; accessToken: string }
+  | { kind: 'basic'; authHeader: string };
+
+export const passthroughEnabled = /^(1|true|yes)$/i.test(process.env.ATLASSIAN_AUTH_PASSTHROUGH || '');
+// Refuse to fall back to the service account when no user credential is available
+export const requireUserAuth = /^(1|true|yes)$/i.test(process.env.ATLASSIAN_REQUIRE_USER_AUTH || '');
+
+// Read a user credential from the inbound request headers (pass-through mode only)
+export function credentialFromHeaders(headers: Record<string, string | string[] | undefined>): UserCredential | undefined {
+  if (!passthroughEnabled) return undefined;
+  // With inbound auth on, Authorization carries the MCP credential and is never forwarded
+  const raw = headers['x-atlassian-authorization'] ?? (inboundAuthEnabled ? undefined : headers['authorization']);
+  const value = (Array.isArray(raw) ? raw[0] : raw || '').trim();
+  const m = value.match(/^(Bearer|Basic)\s+(\S+)$/i);
+  if (!m) return undefined;
+  return m[1].toLowerCase() === 'bearer' ? { kind: 'oauth', accessToken: m[2] } : { kind: 'basic', authHeader: `Basic ${m[2]}` };
+}
+
+// === 3LO configuration ===
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  encryptionKey: Buffer;
+  storePath: string;
+}
+
+let oauthConfig: OAuthConfig | null | undefined;
+
+export function getOAuthConfig(): OAuthConfig | null {
+  if (oauthConfig !== undefined) return oauthConfig;
+  const env = process.env;
+  const missing = ['ATLASSIAN_OAUTH_CLIENT_ID', 'ATLASSIAN_OAUTH_CLIENT_SECRET', 'ATLASSIAN_OAUTH_REDIRECT_URI', 'ATLASSIAN_OAUTH_ENCRYPTION_KEY']
+    .filter((name) => !env[name]);
+  if (missing.length === 4) {
+    oauthConfig = null;
+  } else if (missing.length) {
+    logger.error('OAuth (3LO) disabled: missing settings', { missing });
+    oauthConfig = null;
+  } else {
+    oauthConfig = {
+      clientId: env.ATLASSIAN_OAUTH_CLIENT_ID!,
+      clientSecret: env.ATLASSIAN_OAUTH_CLIENT_SECRET!,
+      redirectUri: env.ATLASSIAN_OAUTH_REDIRECT_URI!,
+      scopes: env.ATLASSIAN_OAUTH_SCOPES || DEFAULT_SCOPES,
+      // Any length secret; hashed to the 32-byte AES key
+      encryptionKey: createHash('sha256').update(env.ATLASSIAN_OAUTH_ENCRYPTION_KEY!).digest(),
+      storePath: env.ATLASSIAN_OAUTH_TOKEN_STORE || '.data/oauth-tokens.json',
+    };
+  }
+  return oauthConfig;
+}
+
+// === Login state ===
+
+// A sign-in started for one MCP session on behalf of one inbound client
+export interface LoginTarget {
+  sessionId: string;
+  // Inbound identity that owned the session when the link was issued ('' with auth off)
+  client: string;
+}
+
+interface PendingLogin extends LoginTarget {
+  expiresAt: number;
+}
+
+export function clientKey(identity: { kind: string; subject: string } | undefined): string {
+  return identity ? `${identity.kind}:${identity.subject}` : '';
+}
+
+// Login ids handed out in sign-in links, and the current one per session so repeated tool errors reuse it
+const loginLinks = new Map<string, PendingLogin>();
+const sessionLinks = new Map<string, string>();
+const pendingLogins = new Map<string, PendingLogin>();
+
+function dropExpired(map: Map<string, PendingLogin>, now: number) {
+  for (const [key, pending] of map) {
+    if (pending.expiresAt >= now) continue;
+    map.delete(key);
+    if (sessionLinks.get(pending.sessionId) === key) sessionLinks.delete(pending.sessionId);
+  }
+}
+
+// URL a user should open to sign in for the given MCP session
+export function loginUrlFor(session: { id: string; identity?: { kind: string; subject: string } }): string | undefined {
+  const config = getOAuthConfig();
+  if (!config) return undefined;
+  const now = Date.now();
+  dropExpired(loginLinks, now);
+  let login = sessionLinks.get(session.id);
+  if (!login) {
+    login = randomBytes(24).toString('base64url');
+    loginLinks.set(login, { sessionId: session.id, client: clientKey(session.identity), expiresAt: now + LOGIN_TTL_MS });
+    sessionLinks.set(session.id, login);
+  }
+  const url = new URL('/oauth/login', config.redirectUri);
+  url.searchParams.set('login', login);
+  return url.toString();
+}
+
+// One-time use: returns the session and client a sign-in link was issued for
+export function consumeLoginLink(login: string): LoginTarget | undefined {
+  const pending = loginLinks.get(login);
+  loginLinks.delete(login);
+  if (!pending) return undefined;
+  if (sessionLinks.get(pending.sessionId) === login) sessionLinks.delete(pending.sessionId);
+  return pending.expiresAt < Date.now() ? undefined : { sessionId: pending.sessionId, client: pending.client };
+}
+
+export function buildAuthorizeUrl(target: LoginTarget): string {
+  const config = getOAuthConfig();
+  if (!config) throw new Error('OAuth is not configured');
+
+  const now = Date.now();
+  dropExpired(pendingLogins, now);
+  const state = randomBytes(24).toString('base64url');
+  pendingLogins.set(state, { ...target, expiresAt: now + STATE_TTL_MS });
+
+  const url = new URL('/authorize', AUTH_BASE);
+  url.search = new URLSearchParams({
+    audience: 'api.atlassian.com',
+    client_id: config.clientId,
+    scope: config.scopes,
+    redirect_uri: config.redirectUri,
+    state,
+    response_type: 'code',
+    prompt: 'consent',
+  }).toString();
+  return url.toString();
+}
+
+// One-time use: returns the session and client the login was started for
+export function consumeLoginState(state: string): LoginTarget | undefined {
+  const pending = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!pending || pending.expiresAt < Date.now()) return undefined;
+  return { sessionId: pending.sessionId, client: pending.client };
+}
+
+// === Token endpoint ===
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+async function tokenRequest(body: Record<string, string>): Promise<TokenResponse> {
+  const res = await httpFetch(`${AUTH_BASE}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Token endpoint returned ${res.status}: ${text || res.statusText}`);
+  }
+  return (await res.json()) as TokenResponse;
+}
+
+/**
+ * Exchange an authorization code, remember the user's tokens and return
+ * their Atlassian account id and display name.
+ */
+export async function completeLogin(code: string): Promise<{ accountId: string; name: string }> {
+  const config = getOAuthConfig();
+  if (!config) throw new Error('OAuth is not configured');
+
+  const tokens = await tokenRequest({
+    grant_type: 'authorization_code',
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    code,
+    redirect_uri: config.redirectUri,
+  });
+
+  const res = await httpFetch(`${API_GATEWAY}/me`, {
+    headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+  });
+  if (!res.ok) throw new Error(`Could not read the signed-in user (${res.status}); is the read:me scope granted?`);
+  const me: any = await res.json();
+  const accountId = String(me?.account_id || '');
+  if (!accountId) throw new Error('Atlassian did not return an account id');
+
+  remember(accountId, tokens);
+  return { accountId, name: me?.name || me?.email || accountId };
+}
+
+// === Token storage ===
+
+const accessTokens = new Map<string, { accessToken: string; expiresAt: number }>();
+// Refreshes in flight per account; a rotated refresh token may only be spent once
+const refreshing = new Map<string, Promise<string | undefined>>();
+
+function remember(accountId: string, tokens: TokenResponse) {
+  // Renew a minute early so a token never expires mid-request
+  accessTokens.set(accountId, { accessToken: tokens.access_token, expiresAt: Date.now() + (tokens.expires_in - 60) * 1000 });
+  if (tokens.refresh_token) getTokenStore().set(accountId, tokens.refresh_token);
+}
+
+/**
+ * Current access token for a signed-in user, refreshing it with the stored
+ * refresh token when needed. Returns undefined when the user must sign in again.
+ */
+export async function getUserAccessToken(accountId: string): Promise<string | undefined> {
+  const cached = accessTokens.get(accountId);
+  if (cached && cached.expiresAt > Date.now()) return cached.accessToken;
+
+  let refresh = refreshing.get(accountId);
+  if (!refresh) {
+    refresh = refreshAccessToken(accountId).finally(() => refreshing.delete(accountId));
+    refreshing.set(accountId, refresh);
+  }
+  return refresh;
+}
+
+async function refreshAccessToken(accountId: string): Promise<string | undefined> {
+  const config = getOAuthConfig();
+  const refreshToken = config ? getTokenStore().get(accountId) : undefined;
+  if (!config || !refreshToken) return undefined;
+
+  try {
+    // Atlassian rotates refresh tokens, so the new one replaces the stored one
+    remember(accountId, await tokenRequest({
+      grant_type: 'refresh_token',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      refresh_token: refreshToken,
+    }));
+    return accessTokens.get(accountId)?.accessToken;
+  } catch (error: any) {
+    logger.error('Refreshing OAuth token failed', { accountId, err: error });
+    // Sign the user out only if no newer token has been stored meanwhile
+    if (getTokenStore().get(accountId) === refreshToken) {
+      getTokenStore().delete(accountId);
+      accessTokens.delete(accountId);
+    }
+    return undefined;
+  }
+}
+
+interface EncryptedEntry {
+  iv: string;
+  tag: string;
+  data: string;
+  updatedAt: string;
+}
+
+// Refresh tokens at rest, encrypted with AES-256-GCM; the file never holds plaintext secrets
+class TokenStore {
+  private entries: Record<string, EncryptedEntry> = {};
+
+  constructor(private path: string, private key: Buffer) {
+    try {
+      this.entries = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') logger.error('Could not read OAuth token store', { path, err: error });
+    }
+  }
+
+  get(accountId: string): string | undefined {
+    const entry = this.entries[accountId];
+    if (!entry) return undefined;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(entry.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      logger.error('Stored refresh token could not be decrypted (encryption key changed?)', { accountId });
+      return undefined;
+    }
+  }
+
+  set(accountId: string, refreshToken: string) {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(refreshToken, 'utf8'), cipher.final()]);
+    this.entries[accountId] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  delete(accountId: string) {
+    if (!this.entries[accountId]) return;
+    delete this.entries[accountId];
+    this.save();
+  }
+
+  private save() {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, JSON.stringify(this.entries, null, 2), { mode: 0o600 });
+      renameSync(tmp, this.path);
+    } catch (error: any) {
+      logger.error('Could not write OAuth token store', { path: this.path, err: error });
+    }
+  }
+}
+
+let tokenStore: TokenStore | undefined;
+
+function getTokenStore(): TokenStore {
+  const config = getOAuthConfig();
+  if (!config) throw new Error('OAuth is not configured');
+  if (!tokenStore) tokenStore = new TokenStore(config.storePath, config.encryptionKey);
+  return tokenStore;
+}
+
+// === Cloud id lookup ===
+
+const resourceCache = new Map<string, { expiresAt: number; resources: { id: string; url: string }[] }>();
+
+/**
+ * OAuth tokens must call the api.atlassian.com gateway with the site's cloud
+ * id rather than the site URL; find it among the sites the token can access.
+ */
+export async function cloudIdFor(accessToken: string, siteUrl: string): Promise<string | undefined> {
+  const cacheKey = createHash('sha256').update(accessToken).digest('hex');
+  let cached = resourceCache.get(cacheKey);
+  if (!cached || cached.expiresAt < Date.now()) {
+    const res = await httpFetch(`${API_GATEWAY}/oauth/token/accessible-resources`, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    });
+    if (!res.ok) throw new Error(`accessible-resources returned ${res.status}`);
+    const resources = ((await res.json()) as any[]).map((r) => ({ id: String(r?.id), url: String(r?.url || '').replace(/\/$/, '') }));
+    cached = { expiresAt: Date.now() + RESOURCES_TTL_MS, resources };
+    resourceCache.set(cacheKey, cached);
+  }
+  const site = siteUrl.replace(/\/$/, '').toLowerCase();
+  return cached.resources.find((r) => r.url.toLowerCase() === site)?.id;
+}
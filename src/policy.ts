@@ -0,0 +1,194 @@
+import { readFileSync } from 'fs';
+import { toolError } from './atlassian.js';
+import { quote } from './cql.js';
+import { logger } from './logger.js';
+
+/*
+ * Access policy: which Confluence content the assistant may see, and what
+ * must be masked in anything it returns. Loaded from ACCESS_POLICY_FILE:
+ *
+ *   {
+ *     "spaces": { "allow": ["ENG", "DOCS"], "deny": ["HR", "SEC"] },
+ *     "deniedLabels": ["confidential"],
+ *     "redact": [{ "pattern": "AKIA[0-9A-Z]{16}", "replacement": "[REDACTED AWS KEY]" }]
+ *   }
+ *
+ * With an allowlist only those spaces are visible; the denylist and denied
+ * labels always win. The search CQL is narrowed so denied content is never
+ * fetched, and results are checked again before they are returned. Every
+ * removed item is counted in the response's filteredByPolicy. Direct reads
+ * and writes of denied content fail with POLICY_DENIED. Redaction applies to
+ * every tool result and resource, Jira included.
+ *
+ * A policy file that cannot be read or parsed stops the server at startup
+ * rather than running unrestricted.
+ */
+
+export type DenialReason = 'space' | 'label';
+
+interface RedactionRule {
+  re: RegExp;
+  replacement: string;
+}
+
+export interface AccessPolicy {
+  allowSpaces?: string[];
+  denySpaces: string[];
+  deniedLabels: string[];
+  redactions: RedactionRule[];
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v.trim())) {
+    throw new Error(`${field} must be an array of non-empty strings`);
+  }
+  return value.map((v) => v.trim());
+}
+
+// Space keys compare upper-case, except personal space keys ("~ada"), which keep their case
+function spaceKeyOf(key: string) {
+  return key.startsWith('~') ? key : key.toUpperCase();
+}
+
+export function parsePolicy(raw: any): AccessPolicy {
+  const allow = raw?.spaces?.allow;
+  const redactions = (Array.isArray(raw?.redact) ? raw.redact : raw?.redact === undefined ? [] : null);
+  if (!redactions) throw new Error('redact must be an array of { pattern, replacement?, flags? }');
+
+  return {
+    allowSpaces: allow === undefined ? undefined : stringList(allow, 'spaces.allow').map(spaceKeyOf),
+    denySpaces: stringList(raw?.spaces?.deny, 'spaces.deny').map(spaceKeyOf),
+    deniedLabels: stringList(raw?.deniedLabels, 'deniedLabels').map((l) => l.toLowerCase()),
+    redactions: redactions.map((r: any, i: number) => {
+      if (typeof r?.pattern !== 'string' || !r.pattern) throw new Error(`redact[${i}].pattern is required`);
+      const flags = typeof r.flags === 'string' ? r.flags : '';
+      try {
+        return { re: new RegExp(r.pattern, flags.includes('g') ? flags : flags + 'g'), replacement: typeof r.replacement === 'string' ? r.replacement : '[REDACTED]' };
+      } catch (error: any) {
+        throw new Error(`redact[${i}].pattern is not a valid regular expression: ${error?.message || error}`);
+      }
+    }),
+  };
+}
+
+let policy: AccessPolicy | null | undefined;
+
+// The configured policy, or null when ACCESS_POLICY_FILE is unset; throws if the file is invalid
+export function getPolicy(): AccessPolicy | null {
+  if (policy === undefined) {
+    const file = process.env.ACCESS_POLICY_FILE?.trim();
+    if (!file) {
+      policy = null;
+    } else {
+      try {
+        policy = parsePolicy(JSON.parse(readFileSync(file, 'utf8')));
+      } catch (error: any) {
+        throw new Error(`Invalid access policy ${file}: ${error?.message || error}`);
+      }
+    }
+  }
+  return policy;
+}
+
+export function logPolicySummary() {
+  const p = getPolicy();
+  if (!p) return;
+  logger.info('Access policy loaded', {
+    allowSpaces: p.allowSpaces,
+    denySpaces: p.denySpaces,
+    deniedLabels: p.deniedLabels,
+    redactionRules: p.redactions.length,
+  });
+}
+
+// Why an item may not be shown, or undefined when it may
+export function denialReason(item: { spaceKey?: string; labels?: string[] }): DenialReason | undefined {
+  const p = getPolicy();
+  if (!p) return undefined;
+  const key = item.spaceKey && spaceKeyOf(item.spaceKey);
+  // With an allowlist, content whose space is unknown is withheld
+  if (p.allowSpaces && (!key || !p.allowSpaces.includes(key))) return 'space';
+  if (key && p.denySpaces.includes(key)) return 'space';
+  if (item.labels?.some((l) => p.deniedLabels.includes(l.toLowerCase()))) return 'label';
+  return undefined;
+}
+
+export function policyDenied(subject: string, reason: DenialReason) {
+  return toolError('POLICY_DENIED', `${subject} is not available under the access policy`, { reason });
+}
+
+// Label names from a content object expanded with metadata.labels
+export function contentLabels(content: any): string[] {
+  return (content?.metadata?.labels?.results || []).map((l: any) => String(l?.name || '')).filter(Boolean);
+}
+
+/**
+ * Narrow a CQL query to the content the policy allows, keeping any
+ * "order by" at the end.
+ */
+export function restrictCql(cql: string): string {
+  const p = getPolicy();
+  if (!p) return cql;
+  const clauses: string[] = [];
+  if (p.allowSpaces) clauses.push(`space in (${p.allowSpaces.map(quote).join(', ')})`);
+  if (p.denySpaces.length) clauses.push(`space not in (${p.denySpaces.map(quote).join(', ')})`);
+  if (p.deniedLabels.length) {
+    clauses.push(`label not in (${p.deniedLabels.map(quote).join(', ')})`);
+    // The label clause only sees the item itself, so a comment or attachment on a denied page would get through
+    clauses.push('type not in (attachment, comment)');
+  }
+  if (!clauses.length) return cql;
+  const m = cql.match(/^(.*?)(\s+order\s+by\s+.*)?$/is)!;
+  return `(${m[1]}) and ${clauses.join(' and ')}${m[2] || ''}`;
+}
+
+// Counts what a list drops so the response can say so
+export class PolicyFilter {
+  private reasons: Partial<Record<DenialReason, number>> = {};
+  private count = 0;
+
+  keep(item: { spaceKey?: string; labels?: string[] }): boolean {
+    const reason = denialReason(item);
+    if (!reason) return true;
+    this.reasons[reason] = (this.reasons[reason] || 0) + 1;
+    this.count++;
+    return false;
+  }
+
+  // Fold in counts reported by another filtered listing
+  add(report: { count: number; reasons: Partial<Record<DenialReason, number>> } | undefined) {
+    if (!report) return;
+    this.count += report.count;
+    for (const [reason, n] of Object.entries(report.reasons) as [DenialReason, number][]) {
+      this.reasons[reason] = (this.reasons[reason] || 0) + n;
+    }
+  }
+
+  // Response fields: present whenever a policy is configured, even when nothing was removed
+  report() {
+    return getPolicy() ? { filteredByPolicy: { count: this.count, reasons: this.reasons } } : {};
+  }
+}
+
+export function redactText(text: string): string {
+  const p = getPolicy();
+  if (!p?.redactions.length) return text;
+  return p.redactions.reduce((out, rule) => out.replace(rule.re, rule.replacement), text);
+}
+
+// Paging cursors and tokens are opaque; a rule that matched inside one would break the next request
+const OPAQUE_KEY_RE = /^(?:\w*cursor|continuationToken|nextPageToken)$/i;
+
+// Apply the redaction rules to every string in a tool result or resource, paging cursors aside
+export function redactContent<T>(value: T): T {
+  const p = getPolicy();
+  if (!p?.redactions.length) return value;
+  const walk = (v: any): any => {
+    if (typeof v === 'string') return redactText(v);
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === 'object') return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, OPAQUE_KEY_RE.test(k) ? x : walk(x)]));
+    return v;
+  };
+  return walk(value);
+}
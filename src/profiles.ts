@@ -0,0 +1,236 @@
+import { readFileSync } from 'fs';
+import { isOutputProfile, OUTPUT_PROFILES, OutputProfile } from './formats.js';
+import { logger } from './logger.js';
+
+/*
+ * Credential profiles: map the connectionId route segment
+ * (/:connectionId/mcp, /apim/:apiName/:connectionId/mcp) to an Atlassian
+ * site and its credentials.
+ *
+ * Sources, later ones overriding earlier ones with the same id:
+ * 1. The default profile from CONFLUENCE_BASE_URL / CONFLUENCE_EMAIL /
+ *    CONFLUENCE_API_TOKEN (or CONFLUENCE_PAT) / JIRA_BASE_URL /
+ *    CONFLUENCE_FLAVOR / CONFLUENCE_CONTEXT_PATH, used when no connectionId
+ *    is given.
+ * 2. ATLASSIAN_PROFILES_FILE: a JSON file, either an array of profiles or an
+ *    object keyed by profile id.
+ * 3. Environment-indexed profiles: ATLASSIAN_PROFILE_<n>_ID, _BASE_URL,
+ *    _JIRA_BASE_URL, _AUTH_TYPE, _EMAIL, _API_TOKEN, _TOKEN, _OUTPUT_PROFILE,
+ *    _FLAVOR, _CONTEXT_PATH for n = 1, 2, ...
+ *
+ * The flavor says whether the site is Atlassian Cloud (the default) or
+ * Confluence/Jira Data Center or Server. Data Center sites serve Confluence
+ * at their own context path (none unless contextPath is set; Cloud always
+ * uses /wiki), take Personal Access Tokens as bearer tokens (authType
+ * "bearer") and page searches by start offset instead of cursors.
+ *
+ * Secret fields may be written as "env:VAR_NAME" to read them from the
+ * environment instead of storing them in the file.
+ */
+
+// 'none': no service account; every call must carry a user credential (see oauth.ts)
+export type AuthType = 'basic' | 'bearer' | 'none';
+
+export const FLAVORS = ['cloud', 'datacenter'] as const;
+export type Flavor = (typeof FLAVORS)[number];
+
+export interface CredentialProfile {
+  id: string;
+  baseUrl: string;
+  jiraBaseUrl?: string;
+  flavor: Flavor;
+  // Path of Confluence on the site: /wiki on Cloud, '' or e.g. /confluence on Data Center
+  contextPath: string;
+  authType: AuthType;
+  // basic: account email (Data Center: username) + API token (Data Center: password)
+  email?: string;
+  apiToken?: string;
+  // bearer: OAuth access token or Personal Access Token
+  token?: string;
+  // Result formatting for clients on this connection (see formats.ts); OUTPUT_PROFILE when unset
+  outputProfile?: OutputProfile;
+}
+
+export interface ProfileEntry {
+  id: string;
+  source: string;
+  profile?: CredentialProfile;
+  errors: string[];
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+function secret(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const m = value.match(/^env:([A-Za-z_][A-Za-z0-9_]*)$/);
+  return m ? process.env[m[1]] || undefined : value;
+}
+
+function validate(id: string, source: string, raw: any): ProfileEntry {
+  const errors: string[] = [];
+  const authType = String(raw?.authType || 'basic').toLowerCase();
+  const baseUrl = typeof raw?.baseUrl === 'string' ? raw.baseUrl.trim().replace(/\/$/, '') : '';
+  const jiraBaseUrl = typeof raw?.jiraBaseUrl === 'string' && raw.jiraBaseUrl.trim() ? raw.jiraBaseUrl.trim().replace(/\/$/, '') : undefined;
+
+  if (!baseUrl) errors.push('baseUrl is required');
+  else if (!/^https?:\/\//.test(baseUrl)) errors.push(`baseUrl must be an http(s) URL: ${baseUrl}`);
+  if (jiraBaseUrl && !/^https?:\/\//.test(jiraBaseUrl)) errors.push(`jiraBaseUrl must be an http(s) URL: ${jiraBaseUrl}`);
+
+  // "server" is accepted for Data Center's predecessor, which behaves the same here
+  const rawFlavor = typeof raw?.flavor === 'string' && raw.flavor.trim() ? raw.flavor.trim().toLowerCase() : 'cloud';
+  const flavor = rawFlavor === 'server' || rawFlavor === 'dc' ? 'datacenter' : rawFlavor;
+  if (!(FLAVORS as readonly string[]).includes(flavor)) errors.push(`flavor must be one of ${FLAVORS.join(', ')}; got "${rawFlavor}"`);
+
+  const rawContextPath = typeof raw?.contextPath === 'string' && raw.contextPath.trim() ? raw.contextPath.trim().replace(/\/+$/, '') : undefined;
+  if (rawContextPath && !rawContextPath.startsWith('/')) errors.push(`contextPath must start with "/": ${rawContextPath}`);
+  if (rawContextPath !== undefined && flavor === 'cloud' && rawContextPath !== '/wiki') errors.push('contextPath can only be set for flavor "datacenter"');
+  const contextPath = rawContextPath ?? (flavor === 'cloud' ? '/wiki' : '');
+
+  const outputProfile = typeof raw?.outputProfile === 'string' && raw.outputProfile.trim() ? raw.outputProfile.trim().toLowerCase() : undefined;
+  if (outputProfile && !isOutputProfile(outputProfile)) {
+    errors.push(`outputProfile must be one of ${OUTPUT_PROFILES.join(', ')}; got "${outputProfile}"`);
+  }
+
+  const profile: CredentialProfile = { id, baseUrl, jiraBaseUrl, flavor: flavor as Flavor, contextPath, authType: authType as AuthType };
+  if (isOutputProfile(outputProfile)) profile.outputProfile = outputProfile;
+  if (authType === 'basic') {
+    profile.email = typeof raw?.email === 'string' ? raw.email.trim() : undefined;
+    profile.apiToken = secret(raw?.apiToken);
+    if (!profile.email) errors.push('email is required for authType "basic"');
+    if (!profile.apiToken) errors.push('apiToken is required for authType "basic"');
+  } else if (authType === 'bearer') {
+    profile.token = secret(raw?.token);
+    if (!profile.token) errors.push('token is required for authType "bearer"');
+  } else if (authType !== 'none') {
+    errors.push(`authType must be "basic", "bearer" or "none"; got "${authType}"`);
+  }
+
+  return { id, source, profile: errors.length ? undefined : profile, errors };
+}
+
+function fromDefaultEnv(): ProfileEntry | undefined {
+  const env = process.env;
+  if (!env.CONFLUENCE_BASE_URL && !env.CONFLUENCE_EMAIL && !env.CONFLUENCE_API_TOKEN && !env.CONFLUENCE_PAT) return undefined;
+  // A site URL alone is a valid user-credentials-only setup when pass-through or OAuth is on
+  const userAuthOnly = !env.CONFLUENCE_EMAIL && !env.CONFLUENCE_API_TOKEN && !env.CONFLUENCE_PAT
+    && (/^(1|true|yes)$/i.test(env.ATLASSIAN_AUTH_PASSTHROUGH || '') || !!env.ATLASSIAN_OAUTH_CLIENT_ID);
+  const entry = validate(DEFAULT_PROFILE_ID, 'CONFLUENCE_* environment variables', {
+    baseUrl: env.CONFLUENCE_BASE_URL,
+    jiraBaseUrl: env.JIRA_BASE_URL,
+    flavor: env.CONFLUENCE_FLAVOR,
+    contextPath: env.CONFLUENCE_CONTEXT_PATH,
+    authType: userAuthOnly ? 'none' : env.CONFLUENCE_PAT ? 'bearer' : 'basic',
+    email: env.CONFLUENCE_EMAIL,
+    apiToken: env.CONFLUENCE_API_TOKEN,
+    token: env.CONFLUENCE_PAT,
+  });
+  // Keep the historical variable names in the error messages
+  entry.errors = entry.errors.map((e) =>
+    e.replace(/^baseUrl/, 'CONFLUENCE_BASE_URL').replace(/^email/, 'CONFLUENCE_EMAIL').replace(/^apiToken/, 'CONFLUENCE_API_TOKEN')
+      .replace(/^flavor/, 'CONFLUENCE_FLAVOR').replace(/^contextPath/, 'CONFLUENCE_CONTEXT_PATH'),
+  );
+  return entry;
+}
+
+function fromFile(path: string): ProfileEntry[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    return [{ id: '(file)', source: path, errors: [`Could not read profiles file: ${error?.message || error}`] }];
+  }
+  const items: [string, any][] = Array.isArray(parsed)
+    ? parsed.map((p: any, i: number) => [p?.id ? String(p.id) : `#${i}`, p])
+    : Object.entries(parsed || {});
+  return items.map(([id, raw]) =>
+    /^#\d+$/.test(id) ? { id, source: path, errors: ['id is required'] } : validate(id, path, raw),
+  );
+}
+
+function fromIndexedEnv(): ProfileEntry[] {
+  const env = process.env;
+  const entries: ProfileEntry[] = [];
+  for (let n = 1; n <= 100; n++) {
+    const prefix = `ATLASSIAN_PROFILE_${n}_`;
+    if (!Object.keys(env).some((k) => k.startsWith(prefix))) continue;
+    const id = env[`${prefix}ID`]?.trim();
+    const source = `${prefix}* environment variables`;
+    if (!id) {
+      entries.push({ id: `#${n}`, source, errors: [`${prefix}ID is required`] });
+      continue;
+    }
+    entries.push(validate(id, source, {
+      baseUrl: env[`${prefix}BASE_URL`],
+      jiraBaseUrl: env[`${prefix}JIRA_BASE_URL`],
+      authType: env[`${prefix}AUTH_TYPE`],
+      email: env[`${prefix}EMAIL`],
+      apiToken: env[`${prefix}API_TOKEN`],
+      token: env[`${prefix}TOKEN`],
+      outputProfile: env[`${prefix}OUTPUT_PROFILE`],
+      flavor: env[`${prefix}FLAVOR`],
+      contextPath: env[`${prefix}CONTEXT_PATH`],
+    }));
+  }
+  return entries;
+}
+
+export class ProfileStore {
+  private entries = new Map<string, ProfileEntry>();
+
+  constructor(entries: ProfileEntry[]) {
+    for (const entry of entries) this.entries.set(entry.id, entry);
+  }
+
+  static fromEnvironment() {
+    const entries: ProfileEntry[] = [];
+    const defaults = fromDefaultEnv();
+    if (defaults) entries.push(defaults);
+    if (process.env.ATLASSIAN_PROFILES_FILE) entries.push(...fromFile(process.env.ATLASSIAN_PROFILES_FILE));
+    entries.push(...fromIndexedEnv());
+    return new ProfileStore(entries);
+  }
+
+  list(): ProfileEntry[] {
+    return [...this.entries.values()];
+  }
+
+  // Only the default profile (or nothing) configured: every connection id shares it, as before profiles existed
+  get singleTenant() {
+    return [...this.entries.keys()].every((id) => id === DEFAULT_PROFILE_ID);
+  }
+
+  /**
+   * Find the entry for a connection id. Unknown ids fall back to the default
+   * profile only in single-tenant setups so that adding profiles never lets a
+   * mistyped connection silently use the default site.
+   */
+  resolve(connectionId?: string): ProfileEntry | undefined {
+    const id = connectionId || DEFAULT_PROFILE_ID;
+    const entry = this.entries.get(id);
+    if (entry) return entry;
+    if (this.singleTenant) return this.entries.get(DEFAULT_PROFILE_ID);
+    return undefined;
+  }
+
+  logSummary() {
+    for (const entry of this.entries.values()) {
+      if (entry.errors.length) logger.error('Credential profile is invalid', { profileId: entry.id, source: entry.source, errors: entry.errors });
+      else logger.info('Credential profile loaded', {
+        profileId: entry.id,
+        source: entry.source,
+        baseUrl: entry.profile?.baseUrl,
+        flavor: entry.profile?.flavor,
+        contextPath: entry.profile?.contextPath || undefined,
+        authType: entry.profile?.authType,
+        outputProfile: entry.profile?.outputProfile,
+      });
+    }
+  }
+}
+
+let store: ProfileStore | undefined;
+
+export function getProfileStore(): ProfileStore {
+  if (!store) store = ProfileStore.fromEnvironment();
+  return store;
+}
@@ -0,0 +1,156 @@
+import { toolError, ToolContext } from './atlassian.js';
+import { fetchPageMarkdown, fetchSpaceOverview, fetchSpaces, SpaceSummary } from './confluence.js';
+import { logger } from './logger.js';
+
+/*
+ * MCP resources: Confluence spaces and pages addressable by URI so clients
+ * can attach documentation as context without a searchPages round trip.
+ *
+ *   confluence://space/{key}  space overview with its top-level pages
+ *   confluence://page/{id}    page body as Markdown
+ *
+ * resources/list returns the spaces in CONFLUENCE_RESOURCE_SPACES (comma
+ * separated keys) or, when unset, every current global space. The set is
+ * polled every RESOURCES_POLL_MS (default 5 minutes) for sessions with an open
+ * GET stream, which receive notifications/resources/list_changed when it changes.
+ */
+
+const PAGE_SIZE = 100;
+const MAX_PAGE_CHARS = Math.max(Number(process.env.RESOURCE_MAX_CHARS) || 200_000, 1000);
+
+export const resourceTemplates = [
+  {
+    uriTemplate: 'confluence://space/{key}',
+    name: 'Confluence space',
+    description: 'Overview of a Confluence space: description, homepage and top-level pages',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'confluence://page/{id}',
+    name: 'Confluence page',
+    description: 'Body of a Confluence page converted to Markdown',
+    mimeType: 'text/markdown',
+  },
+];
+
+export function configuredSpaceKeys(): string[] {
+  return (process.env.CONFLUENCE_RESOURCE_SPACES || '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
+
+function spaceResource(space: SpaceSummary) {
+  return {
+    uri: `confluence://space/${space.key}`,
+    name: space.name,
+    description: space.description || `Confluence space ${space.key}`,
+    mimeType: 'text/markdown',
+  };
+}
+
+export async function listResources(params: any, ctx: ToolContext = {}) {
+  const offset = params?.cursor ? Number(Buffer.from(String(params.cursor), 'base64url').toString('utf8')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return toolError('INVALID_INPUT', 'cursor is not valid', { cursor: params?.cursor });
+  }
+
+  const listed = await fetchSpaces(ctx, configuredSpaceKeys());
+  if ('error' in listed) return listed;
+
+  const page = listed.spaces.slice(offset, offset + PAGE_SIZE);
+  const next = offset + PAGE_SIZE;
+  return {
+    resources: page.map(spaceResource),
+    nextCursor: next < listed.spaces.length ? Buffer.from(String(next)).toString('base64url') : undefined,
+  };
+}
+
+export function parseResourceUri(uri: string): { kind: 'space' | 'page'; id: string } | null {
+  const m = uri.match(/^confluence:\/\/(space|page)\/([^/?#]+)$/);
+  if (!m) return null;
+  const id = decodeURIComponent(m[2]);
+  if (m[1] === 'page' && !/^\d+$/.test(id)) return null;
+  if (m[1] === 'space' && !/^~?[A-Za-z0-9_-]+$/.test(id)) return null;
+  return { kind: m[1] as 'space' | 'page', id };
+}
+
+export async function readResource(params: any, ctx: ToolContext = {}) {
+  const uri = String(params?.uri || '').trim();
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    return toolError('INVALID_INPUT', `Unsupported resource URI: ${uri || '(empty)'}; expected confluence://space/{key} or confluence://page/{id}`, { uri });
+  }
+
+  if (parsed.kind === 'page') {
+    const page = await fetchPageMarkdown(parsed.id, ctx);
+    if ('error' in page) return page;
+    let text = `# ${page.title}\n\nSource: ${page.url}\n\n${page.markdown}`;
+    if (text.length > MAX_PAGE_CHARS) {
+      text = `${text.slice(0, MAX_PAGE_CHARS)}\n\n[Truncated at ${MAX_PAGE_CHARS} characters; use the getPage tool to read the rest]`;
+    }
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  }
+
+  const overview = await fetchSpaceOverview(parsed.id, ctx);
+  if ('error' in overview) return overview;
+  const { space, topPages } = overview;
+  const lines = [`# ${space.name} (${space.key})`, ''];
+  if (space.description) lines.push(space.description, '');
+  if (space.url) lines.push(`Source: ${space.url}`, '');
+  if (space.homepageId) lines.push(`Homepage: confluence://page/${space.homepageId}`, '');
+  if (topPages.length) {
+    lines.push('## Pages', '');
+    for (const p of topPages) lines.push(`- [${p.title}](confluence://page/${p.id})`);
+  }
+  return { contents: [{ uri, mimeType: 'text/markdown', text: lines.join('\n').trim() }] };
+}
+
+/**
+ * Polls the listed space set per connection and reports sessions whose list
+ * changed. Uses the connection's service credentials; connections without
+ * them (user-only auth) are skipped.
+ */
+export class ResourceListWatcher {
+  private signatures = new Map<string, string>();
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private targets: () => { sessionId: string; connectionId?: string }[],
+    private notify: (sessionId: string) => void,
+    private intervalMs = Math.max(Number(process.env.RESOURCES_POLL_MS) || 5 * 60_000, 10_000),
+  ) {}
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch((error) => logger.error('Resource list check failed', { err: error }));
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async check() {
+    const groups = new Map<string, string[]>();
+    for (const t of this.targets()) {
+      const key = t.connectionId ?? '';
+      groups.set(key, [...(groups.get(key) || []), t.sessionId]);
+    }
+
+    for (const [connectionId, sessionIds] of groups) {
+      const listed = await fetchSpaces({ connectionId: connectionId || undefined }, configuredSpaceKeys());
+      if ('error' in listed) continue;
+      const signature = listed.spaces.map((s) => `${s.key}:${s.name}`).sort().join('|');
+      const previous = this.signatures.get(connectionId);
+      this.signatures.set(connectionId, signature);
+      if (previous !== undefined && previous !== signature) {
+        logger.info('Resource list changed, notifying sessions', { connectionId: connectionId || 'default', sessions: sessionIds.length });
+        for (const sessionId of sessionIds) this.notify(sessionId);
+      }
+    }
+  }
+}
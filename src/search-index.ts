@@ -0,0 +1,449 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { getConfluenceConfig, ToolContext } from './atlassian.js';
+import { confluenceGet, fetchPageMarkdown, webUrl } from './confluence.js';
+import { quote } from './cql.js';
+import { logger } from './logger.js';
+import { denialReason } from './policy.js';
+import { getProfileStore } from './profiles.js';
+
+/*
+ * Optional local full-text index of selected Confluence spaces, queried by
+ * the searchIndex tool.
+ *
+ * SEARCH_INDEX_SPACES (comma-separated keys) turns it on. Pages are split into
+ * heading-scoped passages and ranked with BM25, plus boosts for query terms
+ * that appear in the page title or labels. The best passage of each page is
+ * returned as its snippet.
+ *
+ * Sync runs at startup and every SEARCH_INDEX_SYNC_MS (default 15 minutes).
+ * Each pass lists pages changed since the last one with a lastmodified CQL
+ * filter, and downloads only those whose version changed. Every
+ * SEARCH_INDEX_FULL_SYNC_MS (default 24 hours) the whole space is listed, so
+ * deleted pages drop out. A space whose last successful sync is older than
+ * SEARCH_INDEX_MAX_AGE_MS (default 1 hour) counts as stale, and searches that
+ * touch it go to the live API instead.
+ *
+ * The index is built with the service account of SEARCH_INDEX_CONNECTION
+ * (default: the default profile) and stored in SEARCH_INDEX_FILE (default
+ * .data/search-index.json).
+ */
+
+const env = process.env;
+export const INDEX_SPACES = (env.SEARCH_INDEX_SPACES || '').split(',').map((k) => k.trim()).filter(Boolean);
+export const searchIndexEnabled = INDEX_SPACES.length > 0;
+const INDEX_FILE = env.SEARCH_INDEX_FILE || '.data/search-index.json';
+const INDEX_CONNECTION = env.SEARCH_INDEX_CONNECTION?.trim() || undefined;
+const SYNC_MS = Math.max(Number(env.SEARCH_INDEX_SYNC_MS) || 15 * 60_000, 60_000);
+const FULL_SYNC_MS = Math.max(Number(env.SEARCH_INDEX_FULL_SYNC_MS) || 24 * 3_600_000, SYNC_MS);
+const MAX_AGE_MS = Math.max(Number(env.SEARCH_INDEX_MAX_AGE_MS) || 60 * 60_000, SYNC_MS);
+
+// CQL dates have minute precision in the site's time zone; overlap syncs by a day so no edit slips through
+const SYNC_OVERLAP_MS = 24 * 3_600_000;
+const LIST_PAGE_SIZE = 100;
+const PASSAGE_CHARS = 800;
+const SNIPPET_CHARS = 300;
+
+// BM25 parameters and field boosts
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BOOST = 2;
+const LABEL_BOOST = 1.5;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from has have how in is it of on or that the this to was what when where which who why will with'.split(' '),
+);
+
+interface Passage {
+  heading?: string;
+  text: string;
+}
+
+interface IndexedPage {
+  id: string;
+  title: string;
+  url: string;
+  spaceKey: string;
+  labels: string[];
+  version: number;
+  lastModified?: string;
+  passages: Passage[];
+}
+
+interface SpaceState {
+  syncedAt?: string;
+  fullSyncAt?: string;
+  // Newest lastModified seen, where the next incremental sync starts
+  lastModified?: string;
+}
+
+interface IndexFile {
+  version: 1;
+  spaces: Record<string, SpaceState>;
+  pages: IndexedPage[];
+}
+
+export interface IndexHit {
+  id: string;
+  title: string;
+  url: string;
+  spaceKey: string;
+  lastModified?: string;
+  labels: string[];
+  heading?: string;
+  snippet: string;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter((w) => !STOPWORDS.has(w));
+}
+
+// Split a page's Markdown into passages that each stay under one heading
+export function splitPassages(markdown: string): Passage[] {
+  const passages: Passage[] = [];
+  let heading: string | undefined;
+  let buffer = '';
+  const flush = () => {
+    if (buffer.trim()) passages.push({ heading, text: buffer.trim() });
+    buffer = '';
+  };
+  for (const block of markdown.split(/\n{2,}/)) {
+    const h = block.match(/^#{1,6}\s+(.+)$/m);
+    if (h && block.trim().startsWith('#')) {
+      flush();
+      heading = h[1].trim();
+      const rest = block.trim().split('\n').slice(1).join('\n');
+      if (rest.trim()) buffer = rest;
+      continue;
+    }
+    if (buffer && buffer.length + block.length > PASSAGE_CHARS) flush();
+    buffer += (buffer ? '\n\n' : '') + block;
+  }
+  flush();
+  return passages;
+}
+
+// A window of the passage around the first query term
+function snippetOf(text: string, terms: Set<string>): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= SNIPPET_CHARS) return flat;
+  const lower = flat.toLowerCase();
+  const at = Math.min(...[...terms].map((t) => lower.indexOf(t)).filter((i) => i >= 0), flat.length);
+  const start = at >= flat.length ? 0 : Math.max(at - Math.floor(SNIPPET_CHARS / 3), 0);
+  const slice = flat.slice(start, start + SNIPPET_CHARS);
+  return (start > 0 ? '…' : '') + slice + (start + SNIPPET_CHARS < flat.length ? '…' : '');
+}
+
+function cqlDate(iso: string): string {
+  const d = new Date(Date.parse(iso) - SYNC_OVERLAP_MS);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+}
+
+export class SearchIndex {
+  private spaces: Record<string, SpaceState> = {};
+  private pages = new Map<string, IndexedPage>();
+  // Rebuilt lazily after changes: passage -> page, term -> passage -> term frequency
+  private postings?: Map<string, Map<number, number>>;
+  private passageRefs: { page: IndexedPage; passage: Passage; length: number }[] = [];
+  private avgLength = 0;
+
+  constructor(private path: string) {
+    try {
+      const data: IndexFile = JSON.parse(readFileSync(path, 'utf8'));
+      this.spaces = data.spaces || {};
+      for (const page of data.pages || []) this.pages.set(page.id, page);
+      logger.info('Loaded search index', { path, pages: this.pages.size });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') logger.error('Could not read search index; rebuilding', { path, err: error });
+    }
+  }
+
+  get size() {
+    return this.pages.size;
+  }
+
+  spaceState(key: string): SpaceState {
+    return (this.spaces[key] ||= {});
+  }
+
+  // Space keys whose last successful sync is missing or older than the max age
+  staleSpaces(keys: string[] = INDEX_SPACES): string[] {
+    return keys.filter((key) => {
+      const syncedAt = this.spaces[key]?.syncedAt;
+      return !syncedAt || Date.now() - Date.parse(syncedAt) > MAX_AGE_MS;
+    });
+  }
+
+  lastSyncedAt(keys: string[] = INDEX_SPACES): string | undefined {
+    const times = keys.map((k) => this.spaces[k]?.syncedAt).filter((t): t is string => !!t).sort();
+    return times[0];
+  }
+
+  version(id: string) {
+    return this.pages.get(id)?.version;
+  }
+
+  idsInSpace(key: string) {
+    return [...this.pages.values()].filter((p) => p.spaceKey === key).map((p) => p.id);
+  }
+
+  upsert(page: IndexedPage) {
+    this.pages.set(page.id, page);
+    this.postings = undefined;
+  }
+
+  remove(id: string) {
+    if (this.pages.delete(id)) this.postings = undefined;
+  }
+
+  save() {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      const data: IndexFile = { version: 1, spaces: this.spaces, pages: [...this.pages.values()] };
+      writeFileSync(tmp, JSON.stringify(data));
+      renameSync(tmp, this.path);
+    } catch (error: any) {
+      logger.error('Could not write search index', { path: this.path, err: error });
+    }
+  }
+
+  private build() {
+    const postings = new Map<string, Map<number, number>>();
+    this.passageRefs = [];
+    let total = 0;
+    for (const page of this.pages.values()) {
+      for (const passage of page.passages) {
+        const terms = tokenize(`${passage.heading || ''} ${passage.text}`);
+        const index = this.passageRefs.push({ page, passage, length: terms.length }) - 1;
+        total += terms.length;
+        for (const term of terms) {
+          let list = postings.get(term);
+          if (!list) postings.set(term, (list = new Map()));
+          list.set(index, (list.get(index) || 0) + 1);
+        }
+      }
+    }
+    this.avgLength = this.passageRefs.length ? total / this.passageRefs.length : 0;
+    this.postings = postings;
+    return postings;
+  }
+
+  search(query: string, opts: { spaceKeys?: string[]; labels?: string[]; limit: number }): IndexHit[] {
+    const postings = this.postings ?? this.build();
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length) return [];
+
+    const n = this.passageRefs.length;
+    const idf = new Map(terms.map((t) => {
+      const df = postings.get(t)?.size || 0;
+      return [t, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+    }));
+
+    // BM25 per passage; a page scores by its best passage
+    const best = new Map<string, { score: number; passage: Passage }>();
+    const passageScores = new Map<number, number>();
+    for (const term of terms) {
+      for (const [index, tf] of postings.get(term) || []) {
+        const { length } = this.passageRefs[index];
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * length / (this.avgLength || 1)));
+        passageScores.set(index, (passageScores.get(index) || 0) + idf.get(term)! * norm);
+      }
+    }
+    for (const [index, score] of passageScores) {
+      const { page, passage } = this.passageRefs[index];
+      const current = best.get(page.id);
+      if (!current || score > current.score) best.set(page.id, { score, passage });
+    }
+
+    const wantedLabels = opts.labels?.map((l) => l.toLowerCase());
+    const hits: IndexHit[] = [];
+    for (const page of this.pages.values()) {
+      if (opts.spaceKeys?.length && !opts.spaceKeys.includes(page.spaceKey)) continue;
+      if (wantedLabels?.length && !page.labels.some((l) => wantedLabels.includes(l.toLowerCase()))) continue;
+
+      const titleTerms = new Set(tokenize(page.title));
+      const labelTerms = new Set(page.labels.flatMap((l) => tokenize(l)));
+      let score = best.get(page.id)?.score || 0;
+      for (const term of terms) {
+        if (titleTerms.has(term)) score += TITLE_BOOST * idf.get(term)!;
+        if (labelTerms.has(term)) score += LABEL_BOOST * idf.get(term)!;
+      }
+      if (score <= 0) continue;
+
+      const passage = best.get(page.id)?.passage ?? page.passages[0];
+      hits.push({
+        id: page.id,
+        title: page.title,
+        url: page.url,
+        spaceKey: page.spaceKey,
+        lastModified: page.lastModified,
+        labels: page.labels,
+        heading: passage?.heading,
+        snippet: passage ? snippetOf(passage.text, new Set(terms)) : '',
+        score: Math.round(score * 1000) / 1000,
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, opts.limit);
+  }
+}
+
+let index: SearchIndex | undefined;
+
+export function getSearchIndex(): SearchIndex {
+  if (!index) index = new SearchIndex(INDEX_FILE);
+  return index;
+}
+
+// Why the index cannot answer this call, or undefined when it can
+export function indexUnavailableReason(ctx: ToolContext, spaceKeys: string[]): string | undefined {
+  if (!searchIndexEnabled) return 'The search index is not configured (SEARCH_INDEX_SPACES)';
+  // The index holds what the service account can see; users acting as themselves must get their own view
+  if (ctx.userCredential) return 'Calls made with your own Atlassian credentials search the live site';
+  const store = getProfileStore();
+  if (store.resolve(ctx.connectionId)?.id !== store.resolve(INDEX_CONNECTION)?.id) {
+    return 'The search index belongs to a different connection';
+  }
+  const outside = spaceKeys.filter((k) => !INDEX_SPACES.includes(k));
+  if (outside.length) return `Spaces not in the search index: ${outside.join(', ')}`;
+  // Spaces the access policy denies are never synced, so they cannot be stale
+  const stale = getSearchIndex().staleSpaces(spaceKeys.length ? spaceKeys : INDEX_SPACES).filter((k) => !denialReason({ spaceKey: k }));
+  if (stale.length) return `The search index is stale for ${stale.join(', ')}`;
+  return undefined;
+}
+
+// Page ids, versions and labels of a space, optionally only those changed since a date
+async function listSpacePages(ctx: ToolContext, spaceKey: string, since?: string) {
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  let cql = `space = ${quote(spaceKey)} and type = page`;
+  if (since) cql += ` and lastmodified >= ${quote(cqlDate(since))}`;
+  cql += ' order by lastmodified asc';
+
+  const listed: { id: string; title: string; version: number; labels: string[]; url: string; lastModified?: string }[] = [];
+  // Cloud pages by cursor, Data Center by start offset
+  let cursor = '';
+  let start = 0;
+  let more = false;
+  do {
+    const qs = new URLSearchParams({ cql, limit: String(LIST_PAGE_SIZE), expand: 'content.version,content.metadata.labels' });
+    if (config.flavor === 'datacenter') qs.set('start', String(start));
+    else if (cursor) qs.set('cursor', cursor);
+    const page = await confluenceGet(config, `/rest/api/search?${qs.toString()}`, `Space ${spaceKey}`);
+    if ('error' in page) return page;
+    for (const r of page.data?.results || []) {
+      const content = r?.content || {};
+      if (!content.id) continue;
+      listed.push({
+        id: String(content.id),
+        title: String(content.title || r?.title || ''),
+        version: Number(content.version?.number) || 0,
+        labels: (content.metadata?.labels?.results || []).map((l: any) => String(l?.name || '')).filter(Boolean),
+        url: webUrl(config, content._links?.webui),
+        lastModified: content.version?.when || r?.lastModified || undefined,
+      });
+    }
+    const received = (page.data?.results || []).length;
+    const next = page.data?._links?.next;
+    start += received;
+    cursor = typeof next === 'string' ? decodeURIComponent((next.match(/[?&]cursor=([^&]+)/) || [])[1] || '') : '';
+    more = config.flavor === 'datacenter' ? received > 0 && Boolean(next) : Boolean(cursor);
+  } while (more);
+  return { pages: listed };
+}
+
+async function syncSpace(spaceKey: string) {
+  const index = getSearchIndex();
+  const ctx: ToolContext = { connectionId: INDEX_CONNECTION };
+  const state = index.spaceState(spaceKey);
+  const full = !state.fullSyncAt || Date.now() - Date.parse(state.fullSyncAt) > FULL_SYNC_MS;
+  const started = new Date().toISOString();
+
+  const listed = await listSpacePages(ctx, spaceKey, full ? undefined : state.lastModified);
+  if ('error' in listed) {
+    logger.warn('Search index sync failed', { spaceKey, error: listed.error });
+    return;
+  }
+
+  let updated = 0;
+  let removed = 0;
+  for (const item of listed.pages) {
+    // Pages the access policy hides are never indexed
+    if (denialReason({ spaceKey, labels: item.labels })) {
+      if (index.version(item.id) !== undefined) {
+        index.remove(item.id);
+        removed++;
+      }
+      continue;
+    }
+    if (index.version(item.id) === item.version) continue;
+    const page = await fetchPageMarkdown(item.id, ctx);
+    if ('error' in page) {
+      logger.warn('Search index could not fetch page', { spaceKey, pageId: item.id, error: page.error });
+      continue;
+    }
+    index.upsert({
+      id: page.id,
+      title: page.title,
+      url: page.url || item.url,
+      spaceKey,
+      labels: item.labels,
+      version: page.version,
+      lastModified: page.lastModified ?? item.lastModified,
+      passages: splitPassages(page.markdown),
+    });
+    updated++;
+  }
+
+  if (full) {
+    const seen = new Set(listed.pages.map((p) => p.id));
+    for (const id of index.idsInSpace(spaceKey)) {
+      if (!seen.has(id)) {
+        index.remove(id);
+        removed++;
+      }
+    }
+    state.fullSyncAt = started;
+  }
+
+  const newest = listed.pages.map((p) => p.lastModified).filter((t): t is string => !!t).sort().pop();
+  if (newest && (!state.lastModified || newest > state.lastModified)) state.lastModified = newest;
+  state.syncedAt = started;
+  index.save();
+  logger.info('Search index synced', { spaceKey, full, listed: listed.pages.length, updated, removed, pages: index.size });
+}
+
+let syncing = false;
+
+export async function syncSearchIndex() {
+  if (syncing) return;
+  syncing = true;
+  try {
+    for (const spaceKey of INDEX_SPACES) {
+      if (denialReason({ spaceKey })) {
+        logger.warn('Search index skipping space denied by the access policy', { spaceKey });
+        continue;
+      }
+      try {
+        await syncSpace(spaceKey);
+      } catch (error: any) {
+        logger.error('Search index sync failed', { spaceKey, err: error });
+      }
+    }
+  } finally {
+    syncing = false;
+  }
+}
+
+// Sync now and then on an interval; the timer does not keep the process alive
+export function startSearchIndexSync() {
+  if (!searchIndexEnabled) return;
+  logger.info('Search index enabled', { spaces: INDEX_SPACES, file: INDEX_FILE, syncMs: SYNC_MS });
+  void syncSearchIndex();
+  const timer = setInterval(() => void syncSearchIndex(), SYNC_MS);
+  timer.unref?.();
+}
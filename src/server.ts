@@ -1,282 +1,60 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import { fetch as undiciFetch } from 'undici';
-import morgan from 'morgan';
-import { randomUUID } from 'crypto';
+import { cacheEnabled, getResponseCache } from './cache.js';
+import { breakerStatus } from './client.js';
+import { hasScope, inboundAuth, inboundAuthEnabled, logInboundAuthSummary } from './inbound-auth.js';
+import { correlationId, logger, requestContext } from './logger.js';
+import { handleRpcBody, isToolCall, parseRpcBody, sameClient, sessionManager, startServices } from './mcp.js';
+import { httpRequests, registerGauge, renderMetrics } from './metrics.js';
+import { buildAuthorizeUrl, clientKey, completeLogin, consumeLoginLink, consumeLoginState, getOAuthConfig } from './oauth.js';
+import { ResourceListWatcher } from './resources.js';
+import { getSearchIndex, searchIndexEnabled } from './search-index.js';
+import { acceptsEventStream, endSseResponse, SessionChannels, startSseResponse, writeSseEvent } from './sse.js';
 
 /*
- * MCP Server for Confluence integration
+ * MCP Server for Confluence and Jira integration
+ *
+ * Streamable HTTP transport. Tools, sessions and JSON-RPC dispatch live in
+ * mcp.ts and are shared with the stdio entry point (stdio.ts).
  * 
  * Environment variables:
  * - CONFLUENCE_BASE_URL: The base URL of your Confluence instance (e.g., https://your-domain.atlassian.net)
  * - CONFLUENCE_EMAIL: Your Atlassian account email
  * - CONFLUENCE_API_TOKEN: Your Atlassian API token (create at https://id.atlassian.com/manage-profile/security/api-tokens)
+ * - JIRA_BASE_URL: Optional Jira site URL when it differs from CONFLUENCE_BASE_URL (same email/token are used)
+ * - CONFLUENCE_FLAVOR: cloud (default) or datacenter; with CONFLUENCE_CONTEXT_PATH and CONFLUENCE_PAT for Data Center/Server (see profiles.ts)
+ * - CONFLUENCE_WRITE_SPACES: Space keys (comma separated, or *) where the write tools may create/update content; writes are disabled when unset
+ * - ATLASSIAN_BACKEND: live (default), fake, record or replay; see backend.ts (FAKE_CONFLUENCE_FIXTURES, ATLASSIAN_RECORDINGS_FILE)
+ * - OUTPUT_PROFILE: raw (default), markdown, compact or copilot-studio; how search results are shaped (see formats.ts)
+ * - SEARCH_INDEX_SPACES: Space keys (comma separated) to crawl into a local BM25 index for the searchIndex tool; see search-index.ts
+ * - MCP_API_KEYS_FILE / MCP_JWT_JWKS_FILE / MCP_JWT_ISSUER: Inbound authentication for /mcp (API keys or JWT); see inbound-auth.ts
+ * - MCP_RATE_LIMIT_PER_MINUTE: Per-client token-bucket rate limit for /mcp (off by default)
+ * - TRUST_PROXY: Express "trust proxy" setting (true, a hop count, or addresses/subnets) so client IPs come from X-Forwarded-For; unset trusts no proxy
+ * - ACCESS_POLICY_FILE: JSON policy of allowed/denied spaces, denied labels and redaction patterns; see policy.ts
+ * - CACHE_TTL_SECONDS / CACHE_TOOL_TTLS: Response cache for Confluence reads (off by default); see cache.ts
+ * - LOG_LEVEL: debug, info (default), warn or error; logs are JSON lines with a per-request requestId
  * - PORT: The port to run the server on (default: 3000)
  */
 
-// Use global fetch if available (Node 18+), otherwise fall back to undici
-const httpFetch: typeof fetch = (globalThis as any).fetch ?? (undiciFetch as any);
-
 // Minimal JSON utility
 function sendJson(res: Response, payload: any, status = 200) {
   return res.status(status).json(payload);
 }
 
-// Structured error helper for tool results
-function toolError(code: string, message: string, details?: any) {
-  return { error: { code, message, details } };
-}
-
-// SSE headers
-function sseHeaders(res: Response) {
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-}
-
-// Central list of tool descriptors for reuse across initialize, tools/list, and describeTools
-function getToolDescriptors() {
-  return [
-    {
-      name: 'searchPages',
-      description:
-        'Full-text search across all Confluence pages. Use this whenever the user asks a question or requests information. Optionally restrict by spaceKey.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: { type: 'string', description: 'Free-text query to search in page titles and content' },
-          spaceKey: { type: 'string', description: 'Optional Confluence space key to restrict the search' },
-          limit: { type: 'number' , description: 'Page size per request (default 50, max 100; service may cap to 50)' },
-          start: { type: 'number', description: 'Offset index for pagination (ignored when cursor is provided)' },
-          cursor: { type: 'string', description: 'Opaque cursor from a previous response for next/prev page' },
-          includeArchivedSpaces: { type: 'boolean', description: 'Include archived spaces in results' },
-          maxResults: { type: 'number' , description: 'Maximum number of results to return (default 50)' },
-        },
-        required: ['query'],
-        additionalProperties: false,
-      },
-    },
-    {
-      name: 'describeTools',
-      description: 'Summarize what this MCP can do and list all available tools with descriptions.',
-      inputSchema: {
-        type: 'object',
-        properties: {},
-        additionalProperties: false,
-      },
-    },
-  ];
-}
-
-// === Tool handlers ===
-// Remaining Confluence API handler
-
-
-async function handleSearchPages(params: any) {
-  const query = String((params?.query ?? params?.q ?? params?.text ?? params?.question) || '').trim();
-  const spaceKey = String(params?.spaceKey || '').trim();
-  const limit = Math.min(Math.max(Number(params?.limit) || 50, 1), 100);
-  const start = Number(params?.start) || 0;
-  const cursor = String(params?.cursor || '').trim();
-  
-  // Always use 50 for maximum results - no special case needed for "all results" phrases
-  const defaultMaxResults = 50;
-  
-  // Set maxResults with appropriate limits to avoid token overflow
-  const maxResults = Math.max(Number.isFinite(Number(params?.maxResults)) ? Number(params?.maxResults) : defaultMaxResults, 0);
-  
-  // Always auto-paginate, but respect the maxResults limit
-  const autoPaginate = true;
-  
-  console.log(`Search query: "${query}", maxResults: ${maxResults}`);
-  
-  if (!query) {
-    return toolError('MISSING_INPUT', 'Missing required input: query', { missing: ['query'] });
-  }
-
-  // Check if we have Confluence credentials
-  const baseUrl = process.env.CONFLUENCE_BASE_URL;
-  const email = process.env.CONFLUENCE_EMAIL;
-  const token = process.env.CONFLUENCE_API_TOKEN;
-
-  // Require Confluence credentials
-  if (!baseUrl || !email || !token) {
-    console.error("No Confluence credentials found. Please set CONFLUENCE_BASE_URL, CONFLUENCE_EMAIL, and CONFLUENCE_API_TOKEN environment variables.");
-    return toolError('CONFIGURATION_ERROR', 'Confluence credentials not configured', { 
-      missing: [
-        !baseUrl ? 'CONFLUENCE_BASE_URL' : null,
-        !email ? 'CONFLUENCE_EMAIL' : null, 
-        !token ? 'CONFLUENCE_API_TOKEN' : null
-      ].filter(Boolean)
-    });
-  }
-  
-  // Use the real Confluence API
-  console.log("Using Confluence API");
-  try {
-    // Construct the CQL query
-    let cql = `type=page and text ~ "${query}"`;
-    if (spaceKey) {
-      cql += ` and space="${spaceKey}"`;
-    }
-    
-    // Basic authentication header
-    const authHeader = 'Basic ' + Buffer.from(`${email}:${token}`).toString('base64');
-    const base = baseUrl.replace(/\/$/, '');
-    
-    // Prepare for pagination
-    const collected: any[] = [];
-    let nextCursor = cursor;
-    let firstPage: any = null;
-    let pageCount = 0;
-    
-    // Fetch pages
-    do {
-      const qs = new URLSearchParams({ cql, limit: String(limit) });
-      if (!Number.isNaN(start) && Number.isFinite(start) && !nextCursor) qs.set('start', String(start));
-      if (nextCursor) qs.set('cursor', nextCursor);
-      
-      const url = `${base}/wiki/rest/api/search?${qs.toString()}`;
-      console.log(`Fetching from: ${url}`);
-      
-      const res = await httpFetch(url, { headers: { Authorization: authHeader, Accept: 'application/json' } });
-      
-      if (!res.ok) {
-        const text = await res.text().catch(() => '');
-        console.error(`Confluence API error: ${res.status} - ${text || res.statusText}`);
-        
-        return { 
-          cql,
-          results: [],
-          pagination: {
-            start: start,
-            limit: limit,
-            size: 0,
-            totalSize: 0
-          },
-          error: `API error: ${res.status} - ${text || res.statusText}`
-        };
-      }
-      
-      const data = await res.json();
-      firstPage = firstPage || data;
-      
-      const pageItems = (data?.results || []).map((r: any, index: number) => {
-        const id = r?.content?.id || r?.id;
-        const title = r?.title || r?.content?.title;
-        const webui = r?.content?._links?.webui ?? r?._links?.webui ?? '';
-        let url = '';
-        
-        if (webui) {
-          url = base + '/wiki' + webui;
-        } else if (typeof r?.url === 'string' && /^https?:\/\//.test(r.url)) {
-          url = r.url;
-        }
-        
-        // Add result number to title to help bot display more results
-        const enhancedTitle = `[${index + 1}] ${title}`;
-        
-        // Excerpt removed as requested
-        return { id, title: enhancedTitle, url };
-      });
-      
-      collected.push(...pageItems);
-      
-      const links = (data?._links || {}) as any;
-      nextCursor = typeof links?.next === 'string' && /[?&]cursor=([^&]+)/.test(links.next)
-        ? decodeURIComponent((links.next.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
-        : '';
-      
-      pageCount++;
-      
-      // Log current progress
-      console.log(`Fetched page ${pageCount}, total results so far: ${collected.length}, maxResults: ${maxResults}`);
-      
-      // If we already have a significant number of results, we should stop to avoid token limit errors
-      if (collected.length >= maxResults) {
-        console.log(`Reached maxResults limit (${maxResults}), stopping pagination`);
-        break;
-      }
-    } while (autoPaginate && nextCursor && pageCount < 10); // Increased from 5 to 10 pages for more results
-    
-    console.log(`Search complete. Total results: ${collected.length}, pages fetched: ${pageCount}`);
-    
-    // Prepare the results - strictly enforce the maxResults limit
-    const results = collected.slice(0, maxResults);
-    
-    // Log the exact number of results being returned
-    console.log(`Returning ${results.length} results to the client`);
-    
-    // If we have results, add a summary to the first result's title
-    if (results.length > 0) {
-      results[0].title = `DISPLAY ALL ${results.length} RESULTS BELOW - DO NOT STOP AT 10 - ${results[0].title}`;
-    }
-    
-    // Force include total count in the results object itself so the client knows how many results we're returning
-    const resultWithCount = {
-      items: results,
-      count: results.length,
-      totalAvailable: collected.length,
-      displayInstructions: `CRITICAL: Display all ${results.length} results. Do not truncate to 10. Show every single result with its title and URL.`
-    };
-    
-    const data = firstPage || { start: start || 0, limit, size: results.length, _links: {} };
-    const links = (data?._links || {}) as any;
-    
-    const pagination = {
-      start: data?.start ?? null,
-      limit: data?.limit ?? limit,
-      size: data?.size ?? (results?.length ?? 0),
-      totalSize: data?.totalSize ?? undefined,
-      nextCursor: typeof links?.next === 'string' && /[?&]cursor=([^&]+)/.test(links.next)
-        ? decodeURIComponent((links.next.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
-        : undefined,
-      prevCursor: typeof links?.prev === 'string' && /[?&]cursor=([^&]+)/.test(links.prev)
-        ? decodeURIComponent((links.prev.match(/[?&]cursor=([^&]+)/) || [])[1] || '')
-        : undefined,
-      nextUrl: links?.next ? (base + links.next) : undefined,
-      prevUrl: links?.prev ? (base + links.prev) : undefined,
-    };
-    
-    return { 
-      cql, 
-      resultSummary: `Found ${resultWithCount.count} results out of ${resultWithCount.totalAvailable} total matches for "${query}" - DISPLAY ALL ${resultWithCount.count} RESULTS BELOW`,
-      results: resultWithCount.items, 
-      resultCount: resultWithCount.count, 
-      totalAvailable: resultWithCount.totalAvailable, 
-      displayInstructions: resultWithCount.displayInstructions,
-      pagination 
-    };
-  } catch (error: any) {
-    console.error("Error fetching from Confluence API:", error);
-    
-    return { 
-      cql: `type=page and text ~ "${query}"`,
-      resultSummary: `Found 0 results for "${query}"`,
-      results: [],
-      resultCount: 0,
-      totalAvailable: 0,
-      pagination: {
-        start: start,
-        limit: limit,
-        size: 0,
-        totalSize: 0
-      },
-      error: `Exception: ${error.message || 'Unknown error'}`
-    };
-  }
-}
-
-async function handleDescribeTools(_params: any) {
-  const tools = getToolDescriptors();
-  return { tools };
-}
-
 // === App setup ===
 const app = express();
 app.use(helmet());
 
+// Without a trusted proxy req.ip is the socket address, so X-Forwarded-For cannot be spoofed to dodge rate limits
+function trustProxySetting(raw: string): boolean | number | string {
+  if (/^(true|false)$/i.test(raw)) return raw.toLowerCase() === 'true';
+  return /^\d+$/.test(raw) ? Number(raw) : raw;
+}
+
+const trustProxy = process.env.TRUST_PROXY?.trim();
+if (trustProxy) app.set('trust proxy', trustProxySetting(trustProxy));
+
 // Configure CORS
 const allowedOrigins = (process.env.ALLOWED_ORIGINS || '')
   .split(',')
@@ -299,198 +77,94 @@ if (allowedOrigins.length > 0) {
   app.options('*', cors());
 }
 
-app.use(express.json({ limit: '1mb' }));
-
-// Handle raw text for MCP clients
+// MCP bodies are read as raw text whatever the content type so malformed JSON gets a JSON-RPC parse error
 const mcpPaths = ['/mcp', '/:connectionId/mcp', '/apim/:apiName/:connectionId/mcp', '/apim/:apiName/mcp'];
 app.use(mcpPaths, express.text({ type: '*/*', limit: '1mb' }));
 
-// Access log
-app.use(morgan('combined'));
+app.use(express.json({ limit: '1mb' }));
 
-// Track sessions to improve initialization
-const sessions = new Map();
+// Correlation id for every request: echoed back, attached to log entries and sent upstream.
+// Registered after the body parsers so the async context survives into the route handlers.
+app.use((req: Request, res: Response, next) => {
+  const requestId = correlationId(req.header('X-Request-Id') || req.header('X-Correlation-Id'));
+  res.setHeader('X-Request-Id', requestId);
+  requestContext.run({ requestId }, () => next());
+});
 
-// === JSON-RPC handler ===
-const mcpHandler = async (req: Request, res: Response) => {
-  // Extract the session ID from request headers or cookies
-  const requestSessionId = req.headers['mcp-session-id'] as string || '';
-  
-  // Get client IP for logging
-  const clientIp = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
-  
-  const raw = (req as any).body;
-  const msg = typeof raw === 'string' ? (() => { try { return JSON.parse(raw); } catch { return {}; } })() : (raw || {});
-  const id = msg.id;
-  const method = typeof msg.method === 'string' ? msg.method : '';
-  const norm = method.toLowerCase().replace(/[._]/g, '/');
-
-  console.log(`MCP request from ${clientIp}: id=${id ?? '(no id)'} method=${method} -> norm=${norm}`);
-  
-  // Always create a session ID to ensure session tracking
-  const sessionId = requestSessionId || randomUUID();
-  if (!requestSessionId) {
-    console.log(`No session ID provided, creating new session: ${sessionId}`);
-    res.setHeader('Mcp-Session-Id', sessionId);
-    sessions.set(sessionId, {
-      initialized: false,
-      lastActivity: Date.now(),
-      clientIp
-    });
-  } else if (!sessions.has(requestSessionId)) {
-    console.log(`Session ${requestSessionId} not found, creating it`);
-    sessions.set(sessionId, {
-      initialized: false,
-      lastActivity: Date.now(),
-      clientIp
-    });
-  } else {
-    // Update last activity
-    const session = sessions.get(requestSessionId);
-    session.lastActivity = Date.now();
-    sessions.set(requestSessionId, session);
-  }
-  
-  // Handle initialization
-  if (!method || norm === 'initialize' || norm === 'mcp/initialize') {
-    // Generate a session ID if we don't have one
-    const sessionId = requestSessionId || randomUUID();
-    
-    // Store session information
-    sessions.set(sessionId, {
-      initialized: true,
-      lastActivity: Date.now(),
-      clientIp
+// Access log
+app.use((req: Request, res: Response, next) => {
+  const started = performance.now();
+  res.on('finish', () => {
+    const route = req.route?.path ? String(req.route.path) : 'unmatched';
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    logger.info('HTTP request', {
+      method: req.method,
+      url: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - started),
+      // req.ip reads X-Forwarded-For only from proxies trusted with TRUST_PROXY
+      clientIp: req.ip || req.socket.remoteAddress,
+      userAgent: req.header('User-Agent'),
     });
-    
-    // Set headers
-    res.setHeader('Mcp-Session-Id', sessionId);
-    
-    console.log(`Initializing session ${sessionId} for client ${clientIp}`);
-    
-    const result = {
-      protocolVersion: '2023-07-01',  // Use an older protocol version for better compatibility
-      serverInfo: { name: 'Atlassian MCP Server', version: '0.1.1' },
-      capabilities: { tools: { list: true, call: true } },
-      tools: getToolDescriptors(),
-      instructions:
-        'Policy: When the user asks about Confluence content, always call the searchPages tool and return the results. Default to the searchPages tool for any query: set query to the user text. CRITICAL REQUIREMENT: You MUST display EVERY SINGLE result returned by the tool - do not stop at 10, do not summarize, do not truncate. Show ALL results (up to 50) with each result on its own numbered line showing the title and URL. Never say "here are some of the results" - show them ALL.',
-    };
-    return sendJson(res, { jsonrpc: '2.0', id: id ?? null, result });
-  }
+  });
+  next();
+});
 
-  // This block should never be reached since we handle initialization above,
-  // but we'll keep it as a fallback for compatibility
-  if (norm === 'initialize' || norm === 'mcp/initialize') {
-    const sessionId = requestSessionId || randomUUID();
-    
-    // Store session information
-    sessions.set(sessionId, {
-      initialized: true,
-      lastActivity: Date.now(),
-      clientIp
-    });
-    
-    console.log(`Fallback: Initializing session ${sessionId} for client ${clientIp}`);
-    
-    res.setHeader('Mcp-Session-Id', sessionId);
-    return sendJson(res, {
-      jsonrpc: '2.0',
-      id,
-      result: {
-        protocolVersion: '2023-07-01',  // Use an older protocol version for better compatibility
-        serverInfo: { name: 'Atlassian MCP Server', version: '0.1.1' },
-        capabilities: { tools: { list: true, call: true } },
-        tools: getToolDescriptors(),
-        instructions:
-          'Policy: When the user asks about Confluence content, always call the searchPages tool and return the results. Default to the searchPages tool for any query: set query to the user text. CRITICAL REQUIREMENT: You MUST display EVERY SINGLE result returned by the tool - do not stop at 10, do not summarize, do not truncate. Show ALL results (up to 50) with each result on its own numbered line showing the title and URL. Never say "here are some of the results" - show them ALL.',
-      },
-    });
-  }
+// Authenticate MCP callers and apply per-client rate limits (no-op unless configured)
+app.use(mcpPaths, inboundAuth);
 
-  if (norm === 'notifications/initialized' || norm === 'mcp/notifications/initialized') {
-    console.log(`Received notification acknowledgment for session ${requestSessionId}`);
-    
-    // Always return a proper response with id:null if no id provided
-    if (id === undefined || id === null) {
-      console.log(`No ID in notification request, returning structured acknowledgment`);
-      return sendJson(res, { 
-        jsonrpc: '2.0', 
-        id: null, 
-        result: { 
-          acknowledged: true,
-          message: "Notification acknowledged" 
-        } 
-      });
-    }
-    
-    console.log(`Acknowledging notification with ID ${id}`);
-    return sendJson(res, { 
-      jsonrpc: '2.0', 
-      id, 
-      result: { 
-        acknowledged: true,
-        message: "Notification acknowledged" 
-      } 
-    });
-  }
+// Per-session GET streams for server-initiated messages
+const channels = new SessionChannels();
+sessionManager.onEvict((session) => channels.close(session.id));
+sessionManager.keepAlive((session) => channels.isConnected(session.id));
 
-  if (norm === 'tools/list' || norm === 'mcp/tools/list') {
-    return sendJson(res, { jsonrpc: '2.0', id, result: { tools: getToolDescriptors() } });
-  }
+// Tell sessions listening on their GET stream when the listed Confluence spaces change
+const resourceWatcher = new ResourceListWatcher(
+  () => sessionManager.list()
+    .filter((s) => channels.isConnected(s.id))
+    .map((s) => ({ sessionId: s.id, connectionId: s.connectionId })),
+  (sessionId) => channels.send(sessionId, { jsonrpc: '2.0', method: 'notifications/resources/list_changed' }),
+);
+resourceWatcher.start();
 
-  if (norm === 'tools/call' || norm === 'mcp/tools/call' || norm === 'tool/call') {
-    try {
-      const { name, arguments: args = {} } = msg.params || {};
-      
-      // Log tool call for debugging
-      console.log(`Tool call: ${name} with args:`, JSON.stringify(args));
-      
-      // Check if this is a session that hasn't been initialized
-      if (requestSessionId && !sessions.has(requestSessionId)) {
-        console.log(`Session ${requestSessionId} not found, auto-initializing`);
-        // We should auto-initialize here
-        const sessionId = requestSessionId;
-        sessions.set(sessionId, {
-          initialized: true,
-          lastActivity: Date.now(),
-          clientIp
-        });
-        // Continue with the tool call after auto-initializing
-      }
-      
-      let out: any;
-
-      switch (name) {
-        case 'searchPages':
-          out = await handleSearchPages(args);
-          break;
-        case 'describeTools':
-          out = await handleDescribeTools(args);
-          break;
-      default:
-        return sendJson(res, { jsonrpc: '2.0', id, error: { code: -32601, message: `Tool not found: ${name}` } });
-      }
-      return sendJson(res, { jsonrpc: '2.0', id, result: out });
-    } catch (error: any) {
-      console.error(`Error handling tool call:`, error);
-      return sendJson(res, { 
-        jsonrpc: '2.0', 
-        id, 
-        error: { 
-          code: -32603, 
-          message: `Internal error processing tool call: ${error?.message || 'Unknown error'}`,
-          data: { errorType: error?.name || 'Error' }
-        } 
-      });
-    }
-  }
+const mcpHandler = async (req: Request, res: Response) => {
+  const raw = (req as any).body;
+  const parsed = parseRpcBody(typeof raw === 'string' ? raw : '');
+  if ('status' in parsed) return sendJson(res, parsed.payload, parsed.status);
 
-  if (norm === 'ping' || norm === 'mcp/ping') {
-    return sendJson(res, { jsonrpc: '2.0', id, result: { ok: true } });
+  let streaming = false;
+  let reply;
+  try {
+    reply = await handleRpcBody(parsed.body, {
+      transport: 'http',
+      headers: req.headers,
+      sessionId: req.header('Mcp-Session-Id') || undefined,
+      // Connection-specific routes select a credential profile
+      connectionId: req.params.connectionId || undefined,
+      clientIp: req.ip || req.socket.remoteAddress || 'unknown',
+      identity: res.locals.identity,
+      onSession: (session) => {
+        if (!res.headersSent) res.setHeader('Mcp-Session-Id', session.id);
+      },
+      // Stream the response when the client accepts SSE so progress can be sent before the result
+      begin: (messages) => {
+        streaming = acceptsEventStream(req.header('Accept')) && messages.some(isToolCall);
+        if (!streaming) return undefined;
+        startSseResponse(res);
+        return (message) => writeSseEvent(res, message);
+      },
+    });
+  } catch (error: any) {
+    logger.error('Error handling MCP request', { err: error });
+    const payload = { jsonrpc: '2.0', id: null, error: { code: -32603, message: `Internal error: ${error?.message || 'Unknown error'}` } };
+    // Once the SSE stream has started the status is sent; the error goes out as its last event
+    if (streaming) return endSseResponse(res, payload);
+    return sendJson(res, payload, 500);
   }
 
-  return sendJson(res, { jsonrpc: '2.0', id, error: { code: -32601, message: `Unknown method: ${method || '(empty)'}` } });
+  if (streaming) return reply.payload ? endSseResponse(res, reply.payload) : res.end();
+  if (!reply.payload) return res.status(reply.status).end();
+  return sendJson(res, reply.payload, reply.status);
 };
 
 app.post('/mcp', mcpHandler);
@@ -499,20 +173,118 @@ app.post('/apim/:apiName/:connectionId/mcp', mcpHandler);
 app.post('/apim/:apiName/mcp', mcpHandler);
 
 // === SSE endpoint ===
+// Holds a per-session stream open for server-initiated messages (see SessionChannels)
 const mcpGetHandler = (req: Request, res: Response) => {
-  if (!(req.header('Accept') || '').includes('text/event-stream')) {
+  if (!acceptsEventStream(req.header('Accept'))) {
     return res.status(405).send('Method Not Allowed');
   }
-  sseHeaders(res);
-  res.end();
+  const sessionId = req.header('Mcp-Session-Id') || '';
+  if (!sessionId) {
+    return sendJson(res, { jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Missing Mcp-Session-Id header' } }, 400);
+  }
+  const session = sessionManager.get(sessionId);
+  if (!session || session.connectionId !== (req.params.connectionId || undefined) || !sameClient(session, res.locals.identity)) {
+    return sendJson(res, { jsonrpc: '2.0', id: null, error: { code: -32001, message: `Session not found: ${sessionId}` } }, 404);
+  }
+  logger.info('Opening SSE stream', { sessionId });
+  channels.attach(sessionId, res, req.header('Last-Event-ID') || undefined);
 };
 app.get('/mcp', mcpGetHandler);
 app.get('/:connectionId/mcp', mcpGetHandler);
 app.get('/apim/:apiName/:connectionId/mcp', mcpGetHandler);
 app.get('/apim/:apiName/mcp', mcpGetHandler);
 
+// === Session termination ===
+const mcpDeleteHandler = (req: Request, res: Response) => {
+  const sessionId = req.header('Mcp-Session-Id') || '';
+  if (!sessionId) {
+    return sendJson(res, { jsonrpc: '2.0', id: null, error: { code: -32000, message: 'Missing Mcp-Session-Id header' } }, 400);
+  }
+  const session = sessionManager.peek(sessionId);
+  if (!session || !sameClient(session, res.locals.identity) || !sessionManager.delete(sessionId)) {
+    return sendJson(res, { jsonrpc: '2.0', id: null, error: { code: -32001, message: `Session not found: ${sessionId}` } }, 404);
+  }
+  logger.info('Session terminated by client', { sessionId });
+  return res.status(204).end();
+};
+app.delete('/mcp', mcpDeleteHandler);
+app.delete('/:connectionId/mcp', mcpDeleteHandler);
+app.delete('/apim/:apiName/:connectionId/mcp', mcpDeleteHandler);
+app.delete('/apim/:apiName/mcp', mcpDeleteHandler);
+
+// === OAuth 2.0 (3LO) sign-in ===
+// Started from the loginUrl returned in AUTH_REQUIRED tool errors; binds the signed-in user to the MCP session
+app.get('/oauth/login', (req: Request, res: Response) => {
+  if (!getOAuthConfig()) return res.status(404).send('OAuth sign-in is not configured');
+  const target = consumeLoginLink(String(req.query.login || ''));
+  const session = target ? sessionManager.peek(target.sessionId) : undefined;
+  if (!target || !session || clientKey(session.identity) !== target.client) {
+    return res.status(400).send('Sign-in link expired or already used. Request a new one from your assistant.');
+  }
+  return res.redirect(buildAuthorizeUrl(target));
+});
+
+app.get('/oauth/callback', async (req: Request, res: Response) => {
+  if (!getOAuthConfig()) return res.status(404).send('OAuth sign-in is not configured');
+  if (req.query.error) {
+    return res.status(400).send(`Sign-in was not completed: ${String(req.query.error_description || req.query.error)}`);
+  }
+  const target = consumeLoginState(String(req.query.state || ''));
+  const session = target ? sessionManager.peek(target.sessionId) : undefined;
+  if (!target || !session) return res.status(400).send('Sign-in link expired or already used. Request a new one from your assistant.');
+  if (clientKey(session.identity) !== target.client) {
+    logger.warn('OAuth callback refused: session changed hands', { sessionId: session.id });
+    return res.status(400).send('Sign-in link expired or already used. Request a new one from your assistant.');
+  }
+
+  try {
+    const user = await completeLogin(String(req.query.code || ''));
+    if (session.oauthAccountId && session.oauthAccountId !== user.accountId) {
+      logger.warn('OAuth callback refused: session already signed in as another account', { sessionId: session.id, accountId: user.accountId });
+      return res.status(409).type('text/plain').send('This conversation is already signed in with another Atlassian account. Start a new conversation to switch accounts.');
+    }
+    session.oauthAccountId = user.accountId;
+    logger.info('Session signed in to Atlassian', { sessionId: session.id, accountId: user.accountId });
+    return res.status(200).type('text/plain').send(`Signed in to Atlassian as ${user.name}. You can close this window and return to your assistant.`);
+  } catch (error: any) {
+    logger.error('OAuth callback failed', { err: error });
+    return res.status(502).send('Sign-in failed while contacting Atlassian. Please try again.');
+  }
+});
+
+// === Admin ===
+// Needs inbound authentication and the admin scope; without auth configured the routes do not exist
+const requireAdmin = (_req: Request, res: Response, next: () => void) => {
+  if (!inboundAuthEnabled) return res.status(404).send('Admin routes need inbound authentication (MCP_API_KEYS_FILE or MCP_JWT_*)');
+  if (!hasScope(res.locals.identity, 'admin')) {
+    return sendJson(res, { error: { code: 'FORBIDDEN', message: 'Forbidden: the admin scope is required' } }, 403);
+  }
+  next();
+};
+
+// Empty the response cache, or only one credential profile's entries with ?profile=
+app.post('/admin/cache/purge', inboundAuth, requireAdmin, (req: Request, res: Response) => {
+  const profile = typeof req.query.profile === 'string' && req.query.profile ? req.query.profile : undefined;
+  const cache = getResponseCache();
+  const purged = cache.purge(profile);
+  cache.save();
+  logger.info('Response cache purged', { profile, purged, client: res.locals.identity?.subject });
+  return sendJson(res, { purged, profile, remaining: cache.size });
+});
+
 // === Health + root ===
 app.get('/healthz', (_req, res) => res.status(200).send('ok'));
+
+// Prometheus scrape endpoint
+registerGauge('mcp_active_sessions', 'Open MCP sessions', () => [{ value: sessionManager.size }]);
+registerGauge('atlassian_circuit_open', 'Whether the upstream circuit breaker for a host is open (1) or half-open/closed (0)', () =>
+  breakerStatus().map((b) => ({ labels: { host: b.host }, value: b.state === 'open' ? 1 : 0 })),
+);
+if (cacheEnabled) registerGauge('mcp_cache_entries', 'Entries in the response cache', () => [{ value: getResponseCache().size }]);
+if (searchIndexEnabled) registerGauge('search_index_pages', 'Pages in the local search index', () => [{ value: getSearchIndex().size }]);
+// Scrapers need an admin credential once inbound authentication is on; the metrics name hosts and clients
+const metricsAuth = inboundAuthEnabled ? [inboundAuth, requireAdmin] : [];
+app.get('/metrics', ...metricsAuth, (_req: Request, res: Response) => res.status(200).type('text/plain; version=0.0.4').send(renderMetrics()));
 app.get('/', (_req, res) => res.status(200).send('ok'));
 
 // Minimal OpenAPI
@@ -532,7 +304,7 @@ app.get('/.well-known/openapi.json', (_req, res) => {
 
 // === Error handling ===
 app.use((err: any, _req: Request, res: Response, _next: any) => {
-  console.error('Request error:', err?.stack || err);
+  logger.error('Request error', { err });
   if (res.headersSent) return;
   res.status(typeof err?.status === 'number' ? err.status : 500).type('application/json').send({ error: 'Internal Server Error' });
 });
@@ -548,26 +320,34 @@ const portOrPipe = !isWindows
   ? numericEnvPort ?? defaultPort
   : cleanedPort && !/^\d+$/.test(cleanedPort) ? cleanedPort : numericEnvPort ?? defaultPort;
 
-console.log(`Node version: ${process.version}`);
-console.log(`Environment: ${isAzure ? 'Azure' : 'Local'}`);
-console.log(`Platform: ${process.platform}`);
-console.log(`Environment variables: PORT=${rawPort}, WEBSITE_SITE_NAME=${process.env.WEBSITE_SITE_NAME}`);
-console.log(`Resolved PORT: ${rawPort ?? '(undefined)'} | platform=${process.platform} | azure=${isAzure} -> using ${typeof portOrPipe === 'string' ? portOrPipe : `port ${portOrPipe}`}`);
+logger.info('Starting MCP server', {
+  nodeVersion: process.version,
+  environment: isAzure ? 'Azure' : 'Local',
+  platform: process.platform,
+  portEnv: rawPort,
+  siteName: process.env.WEBSITE_SITE_NAME,
+  listen: typeof portOrPipe === 'string' ? portOrPipe : `port ${portOrPipe}`,
+});
+startServices();
+logInboundAuthSummary();
+if (cacheEnabled && !inboundAuthEnabled) {
+  logger.warn('Response cache is on but inbound authentication is off, so POST /admin/cache/purge is unavailable; restart to empty the cache');
+}
 
-process.on('unhandledRejection', (reason) => console.error('UnhandledRejection:', reason));
-process.on('uncaughtException', (err) => console.error('UncaughtException:', err));
+process.on('unhandledRejection', (reason) => logger.error('UnhandledRejection', { err: reason }));
+process.on('uncaughtException', (err) => logger.error('UncaughtException', { err }));
 
 try {
   if (typeof portOrPipe === 'string') {
-    app.listen(portOrPipe, () => console.log(`MCP server listening on ${portOrPipe}`));
+    app.listen(portOrPipe, () => logger.info('MCP server listening', { pipe: portOrPipe }));
   } else {
     // Azure App Service expects the app to listen on all interfaces (0.0.0.0)
     // rather than just localhost (127.0.0.1)
     const host = isAzure ? '0.0.0.0' : '127.0.0.1';
     const numericPort = typeof portOrPipe === 'number' ? portOrPipe : parseInt(String(portOrPipe), 10);
-    app.listen(numericPort, host, () => console.log(`MCP server listening on ${host}:${numericPort}`));
+    app.listen(numericPort, host, () => logger.info('MCP server listening', { host, port: numericPort }));
   }
 } catch (error) {
-  console.error('Failed to start server:', error);
+  logger.error('Failed to start server', { err: error });
   process.exit(1);
 }
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { logger } from './logger.js';
+
+/*
+ * MCP session lifecycle for the Streamable HTTP transport.
+ *
+ * Sessions are created only by `initialize` and identified by the
+ * Mcp-Session-Id header. They expire after SESSION_TTL_MS of inactivity
+ * (default 30 minutes); an open GET stream counts as activity. An unknown or
+ * expired id gets HTTP 404 so the client knows to initialize again. A stdio
+ * session lives as long as its process.
+ *
+ * At most MCP_MAX_SESSIONS (default 10000) sessions are open at once; while
+ * that many are live, initialize is refused with HTTP 503.
+ *
+ * With MCP_STRICT_SESSIONS=true, requests other than initialize/ping must carry
+ * a session id, and tools/call is rejected until the client has sent
+ * notifications/initialized.
+ */
+
+// Newest first. '2023-07-01' is kept for clients that were built against the original server.
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05', '2023-07-01'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+const LEGACY_PROTOCOL_VERSION = '2023-07-01';
+
+/**
+ * Pick the protocol version for a session: the client's version when we
+ * support it, otherwise our latest (the client then decides whether to
+ * disconnect). Clients that send none get the legacy version they always got.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested !== 'string' || !requested) return LEGACY_PROTOCOL_VERSION;
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+export interface Session {
+  id: string;
+  protocolVersion: string;
+  clientInfo?: { name?: string; version?: string };
+  clientIp: string;
+  // connectionId route segment the session was opened on; selects its credential profile
+  connectionId?: string;
+  createdAt: number;
+  lastActivity: number;
+  // Atlassian account signed in through the OAuth (3LO) flow for this session
+  oauthAccountId?: string;
+  // Authenticated MCP client that opened the session (inbound auth)
+  identity?: { kind: 'apiKey' | 'jwt' | 'local'; subject: string; scopes: string[] };
+  // Transport the session was opened over
+  transport?: 'http' | 'stdio';
+  // Set once the client sends notifications/initialized
+  initialized: boolean;
+}
+
+export const strictSessions = /^(1|true|yes)$/i.test(process.env.MCP_STRICT_SESSIONS || '');
+
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private evictListeners: ((session: Session) => void)[] = [];
+  private keepAliveChecks: ((session: Session) => boolean)[] = [];
+  private sweeper?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private ttlMs = Math.max(Number(process.env.SESSION_TTL_MS) || 30 * 60_000, 1000),
+    private maxSessions = Math.max(Number(process.env.MCP_MAX_SESSIONS) || 10_000, 1),
+  ) {}
+
+  // Open a session; undefined when the cap is reached and no session has expired to make room
+  create(init: { clientIp: string; protocolVersion: string; clientInfo?: Session['clientInfo']; connectionId?: string; identity?: Session['identity']; transport?: Session['transport'] }): Session | undefined {
+    if (this.sessions.size >= this.maxSessions) this.sweep();
+    if (this.sessions.size >= this.maxSessions) return undefined;
+    const now = Date.now();
+    const session: Session = { id: randomUUID(), createdAt: now, lastActivity: now, initialized: false, ...init };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  // Look up a live session and refresh its idle timer; expired sessions are evicted and reported as missing
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    if (this.isExpired(session)) {
+      this.evict(session);
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  // Look up a session without refreshing its idle timer (e.g. from the OAuth callback)
+  peek(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    return session && !this.isExpired(session) ? session : undefined;
+  }
+
+  delete(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    this.evict(session);
+    return true;
+  }
+
+  list(): Session[] {
+    return [...this.sessions.values()];
+  }
+
+  get size() {
+    return this.sessions.size;
+  }
+
+  onEvict(listener: (session: Session) => void) {
+    this.evictListeners.push(listener);
+  }
+
+  // Sessions the check holds alive (e.g. with an open GET stream) don't idle out
+  keepAlive(check: (session: Session) => boolean) {
+    this.keepAliveChecks.push(check);
+  }
+
+  // Periodically drop idle sessions so the map doesn't grow forever
+  startSweeper(intervalMs = Math.min(this.ttlMs, 60_000)) {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => this.sweep(), intervalMs);
+    this.sweeper.unref?.();
+  }
+
+  stopSweeper() {
+    if (this.sweeper) clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+
+  sweep() {
+    let evicted = 0;
+    for (const session of this.sessions.values()) {
+      if (this.isExpired(session)) {
+        this.evict(session);
+        evicted++;
+      }
+    }
+    if (evicted) logger.info('Evicted idle sessions', { evicted, active: this.sessions.size });
+  }
+
+  private isExpired(session: Session) {
+    if (session.transport === 'stdio') return false;
+    // A session held alive counts as active, so its idle timer starts when it is let go
+    if (this.keepAliveChecks.some((check) => check(session))) {
+      session.lastActivity = Date.now();
+      return false;
+    }
+    return Date.now() - session.lastActivity > this.ttlMs;
+  }
+
+  private evict(session: Session) {
+    this.sessions.delete(session.id);
+    for (const listener of this.evictListeners) listener(session);
+  }
+}
@@ -0,0 +1,130 @@
+import { Response } from 'express';
+import { logger } from './logger.js';
+
+/*
+ * Server-Sent Events support for the Streamable HTTP transport.
+ *
+ * - POST responses: a tools/call with `Accept: text/event-stream` gets its
+ *   notifications/progress events and final JSON-RPC response as an SSE stream.
+ * - GET channel: one long-lived stream per session for server-initiated
+ *   messages. Events are numbered and the last SSE_BUFFER_SIZE are kept so a
+ *   client reconnecting with Last-Event-ID receives what it missed.
+ */
+
+const KEEP_ALIVE_MS = 25_000;
+const SSE_BUFFER_SIZE = Math.max(Number(process.env.SSE_BUFFER_SIZE) || 100, 1);
+
+// SSE headers
+export function sseHeaders(res: Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies (Azure front ends, nginx) from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+}
+
+export function acceptsEventStream(accept: string | undefined) {
+  return (accept || '').includes('text/event-stream');
+}
+
+export function writeSseEvent(res: Response, data: any, id?: string | number) {
+  if (res.writableEnded || res.destroyed) return false;
+  let frame = '';
+  if (id !== undefined) frame += `id: ${id}\n`;
+  frame += `event: message\n`;
+  for (const line of JSON.stringify(data).split('\n')) frame += `data: ${line}\n`;
+  res.write(frame + '\n');
+  return true;
+}
+
+// Open an SSE response for a single POST; the caller writes events then calls endSseResponse
+export function startSseResponse(res: Response) {
+  sseHeaders(res);
+  res.status(200);
+  res.flushHeaders();
+}
+
+export function endSseResponse(res: Response, payload: any) {
+  writeSseEvent(res, payload);
+  if (!res.writableEnded) res.end();
+}
+
+interface Channel {
+  res?: Response;
+  keepAlive?: ReturnType<typeof setInterval>;
+  nextId: number;
+  events: { id: number; data: any }[];
+}
+
+export class SessionChannels {
+  private channels = new Map<string, Channel>();
+
+  private channel(sessionId: string) {
+    let channel = this.channels.get(sessionId);
+    if (!channel) {
+      channel = { nextId: 1, events: [] };
+      this.channels.set(sessionId, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Attach a GET response as the session's stream. Any previous stream for the
+   * session is closed; events after lastEventId are replayed first.
+   */
+  attach(sessionId: string, res: Response, lastEventId?: string) {
+    const channel = this.channel(sessionId);
+    this.detach(sessionId);
+
+    sseHeaders(res);
+    res.status(200);
+    res.flushHeaders();
+    // Comment line so clients see the stream is live before the first event
+    res.write(': connected\n\n');
+
+    const after = Number(lastEventId);
+    if (lastEventId && Number.isFinite(after)) {
+      const missed = channel.events.filter((e) => e.id > after);
+      logger.info('Replaying missed SSE events', { sessionId, count: missed.length, after });
+      for (const e of missed) writeSseEvent(res, e.data, e.id);
+    }
+
+    channel.res = res;
+    channel.keepAlive = setInterval(() => {
+      if (!res.writableEnded) res.write(': keep-alive\n\n');
+    }, KEEP_ALIVE_MS);
+
+    res.on('close', () => {
+      if (channel.res === res) this.detach(sessionId);
+    });
+  }
+
+  private detach(sessionId: string) {
+    const channel = this.channels.get(sessionId);
+    if (!channel) return;
+    if (channel.keepAlive) clearInterval(channel.keepAlive);
+    channel.keepAlive = undefined;
+    const res = channel.res;
+    channel.res = undefined;
+    if (res && !res.writableEnded) res.end();
+  }
+
+  // Queue a server-initiated JSON-RPC message; delivered now if a stream is attached, else on reconnect
+  send(sessionId: string, message: any) {
+    const channel = this.channel(sessionId);
+    const event = { id: channel.nextId++, data: message };
+    channel.events.push(event);
+    if (channel.events.length > SSE_BUFFER_SIZE) channel.events.splice(0, channel.events.length - SSE_BUFFER_SIZE);
+    return channel.res ? writeSseEvent(channel.res, message, event.id) : false;
+  }
+
+  isConnected(sessionId: string) {
+    return !!this.channels.get(sessionId)?.res;
+  }
+
+  // Close the stream and forget buffered events, e.g. when the session ends
+  close(sessionId: string) {
+    this.detach(sessionId);
+    this.channels.delete(sessionId);
+  }
+}
@@ -0,0 +1,98 @@
+import { userInfo } from 'os';
+import { createInterface } from 'readline';
+import { InboundIdentity, SCOPES } from './inbound-auth.js';
+import { correlationId, logger, requestContext, setLogSink } from './logger.js';
+import { handleRpcBody, parseRpcBody, sessionManager, startServices } from './mcp.js';
+import { ResourceListWatcher } from './resources.js';
+
+/*
+ * MCP over stdio for desktop clients that launch the server as a child
+ * process. Each line on stdin is one JSON-RPC message or batch and each line
+ * written to stdout is one response or notification; logs go to stderr so
+ * they never mix with the protocol stream.
+ *
+ * Tools, sessions and configuration are the same as the HTTP server (see
+ * mcp.ts). The process speaks for the local user: every tool is available
+ * regardless of inbound authentication, and the session lasts until stdin
+ * closes. Per-user OAuth sign-in needs the HTTP server's callback, so use
+ * CONFLUENCE_EMAIL/CONFLUENCE_API_TOKEN or a credential profile instead.
+ */
+
+setLogSink((line) => process.stderr.write(line));
+
+function localUser() {
+  try {
+    return userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'local';
+  }
+}
+
+const identity: InboundIdentity = { kind: 'local', subject: localUser(), scopes: [...SCOPES] };
+let sessionId: string | undefined;
+
+function send(message: any) {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+async function handleLine(body: any) {
+  const reply = await handleRpcBody(body, {
+    transport: 'stdio',
+    headers: {},
+    sessionId,
+    clientIp: 'stdio',
+    identity,
+    onSession: (session) => {
+      sessionId = session.id;
+    },
+    // Progress notifications are written as they happen, ahead of the result
+    begin: () => send,
+  });
+  if (reply.payload) send(reply.payload);
+}
+
+const opensSession = (m: any) => /^(mcp\/)?initialize$/.test(String(m?.method || ''));
+
+// An initialize must finish (and yield its session) before the messages after it run;
+// other messages run concurrently so a slow tool call doesn't hold up pings or cancellations
+let ready: Promise<void> = Promise.resolve();
+const inFlight = new Set<Promise<void>>();
+
+const rl = createInterface({ input: process.stdin, crlfDelay: Infinity });
+rl.on('line', (line) => {
+  if (!line.trim()) return;
+  requestContext.run({ requestId: correlationId(undefined), clientId: `local:${identity.subject}` }, () => {
+    const parsed = parseRpcBody(line);
+    if ('status' in parsed) return send(parsed.payload);
+
+    const run = ready
+      .then(() => handleLine(parsed.body))
+      .catch((error) => logger.error('Failed to handle stdio message', { err: error }));
+    inFlight.add(run);
+    run.finally(() => inFlight.delete(run));
+    if ((Array.isArray(parsed.body) ? parsed.body : [parsed.body]).some(opensSession)) ready = run;
+  });
+});
+
+// The client closing stdin ends the session; let in-flight calls answer first
+rl.on('close', async () => {
+  await Promise.allSettled([...inFlight]);
+  logger.info('stdin closed; exiting');
+  process.exit(0);
+});
+
+// Tell the client when the listed Confluence spaces change
+const resourceWatcher = new ResourceListWatcher(
+  () => {
+    const session = sessionId ? sessionManager.peek(sessionId) : undefined;
+    return session ? [{ sessionId: session.id, connectionId: session.connectionId }] : [];
+  },
+  () => send({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' }),
+);
+resourceWatcher.start();
+
+logger.info('Starting MCP server on stdio', { nodeVersion: process.version, platform: process.platform, user: identity.subject });
+startServices();
+
+process.on('unhandledRejection', (reason) => logger.error('UnhandledRejection', { err: reason }));
+process.on('uncaughtException', (err) => logger.error('UncaughtException', { err }));
@@ -0,0 +1,115 @@
+import { z } from 'zod/v4';
+import { ToolContext } from './atlassian.js';
+
+/*
+ * Tool definitions. Each tool is declared once with zod schemas: the input
+ * schema is both advertised (as JSON Schema in tools/list) and enforced
+ * before the handler runs, and the output schema describes structuredContent.
+ *
+ * Handlers keep returning plain objects (or toolError(...)); toolResult wraps
+ * them in the MCP CallToolResult shape with content, structuredContent and isError.
+ */
+
+export interface ToolDefinition<I extends z.ZodObject = z.ZodObject> {
+  name: string;
+  description: string;
+  input: I;
+  output: z.ZodObject;
+  handler: (args: z.infer<I>, ctx: ToolContext) => Promise<any>;
+}
+
+export function defineTool<I extends z.ZodObject>(def: ToolDefinition<I>): ToolDefinition {
+  return def as unknown as ToolDefinition;
+}
+
+export interface ParamIssue {
+  field: string;
+  message: string;
+}
+
+// Thrown by handlers for argument problems only detectable after parsing (e.g. CQL date formats)
+export class InvalidParamsError extends Error {
+  constructor(public issues: ParamIssue[]) {
+    super(issues.map((i) => (i.field ? `${i.field}: ${i.message}` : i.message)).join('; '));
+    this.name = 'InvalidParamsError';
+  }
+}
+
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output') {
+  const { $schema, ...rest } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as Record<string, any>;
+  return rest;
+}
+
+export function toolDescriptor(def: ToolDefinition) {
+  return {
+    name: def.name,
+    description: def.description,
+    inputSchema: jsonSchema(def.input, 'input'),
+    outputSchema: jsonSchema(def.output, 'output'),
+  };
+}
+
+// Validate raw tool arguments; throws InvalidParamsError with one issue per offending field
+export function parseArguments(def: ToolDefinition, args: unknown) {
+  const parsed = def.input.safeParse(args ?? {});
+  if (parsed.success) return parsed.data;
+  throw new InvalidParamsError(
+    parsed.error.issues.flatMap((issue) => {
+      if (issue.code === 'unrecognized_keys') {
+        return issue.keys.map((key) => ({ field: key, message: 'Unrecognized argument' }));
+      }
+      return [{ field: issue.path.map(String).join('.'), message: issue.message }];
+    }),
+  );
+}
+
+// Cursors for start-offset paging: the offset, base64url encoded so it stays opaque to clients
+export function readOffset(cursor: unknown) {
+  if (!cursor) return 0;
+  const offset = Number(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  if (!Number.isInteger(offset) || offset < 0) throw new InvalidParamsError([{ field: 'cursor', message: 'cursor is not valid' }]);
+  return offset;
+}
+
+export function encodeOffset(offset: number) {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+// Wrap a handler's return value as an MCP CallToolResult
+export function toolResult(out: any) {
+  if (out?.error) {
+    return { content: [{ type: 'text', text: JSON.stringify(out) }], isError: true };
+  }
+  return { content: [{ type: 'text', text: JSON.stringify(out) }], structuredContent: out };
+}
+
+// Common output fragments
+export const pageRef = z.looseObject({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+});
+
+export const partialFields = {
+  partial: z.boolean().optional().describe('True when a later page failed and the results are incomplete'),
+  warning: z.string().optional(),
+  resumeCursor: z.string().optional().describe('Cursor to retry from the page that failed'),
+};
+
+// Present on list results whenever an access policy is configured
+export const policyFields = {
+  filteredByPolicy: z
+    .object({ count: z.number(), reasons: z.record(z.string(), z.number()) })
+    .optional()
+    .describe('Items the access policy removed from these results, by reason (space or label)'),
+};
+
+// Write tools return either the result or, with dryRun, the request that would have been sent
+export function writeOutput(shape: z.ZodRawShape) {
+  return z.looseObject({
+    ...z.object(shape).partial().shape,
+    dryRun: z.boolean().optional(),
+    writeAllowed: z.boolean().optional(),
+    request: z.object({ method: z.string(), url: z.string(), body: z.any() }).optional(),
+  });
+}
@@ -0,0 +1,380 @@
+import { z } from 'zod/v4';
+import { AtlassianConfig, getConfluenceConfig, toolError, ToolContext } from './atlassian.js';
+import { atlassianFetch, describeFetchError } from './client.js';
+import { confluenceGet, webUrl } from './confluence.js';
+import { logger } from './logger.js';
+import { markdownToStorage } from './markdown.js';
+import { contentLabels, denialReason, policyDenied } from './policy.js';
+import { defineTool, writeOutput } from './tools.js';
+
+/*
+ * Confluence write tools: createPage, updatePage, addComment and addLabels.
+ *
+ * Writes are disabled unless the target space is listed in
+ * CONFLUENCE_WRITE_SPACES (comma separated keys, or * for every space). Each
+ * tool accepts dryRun, which returns the exact request that would be sent
+ * without calling Confluence; dry runs are allowed for any space so callers
+ * can preview changes before writes are enabled. Content hidden by the access
+ * policy cannot be written to, dry run or not.
+ *
+ * Page bodies are Markdown, converted with markdownToStorage. updatePage uses
+ * optimistic concurrency: pass the version you read and the update is refused
+ * if the page has moved on since.
+ */
+
+const WRITE_SPACES = (process.env.CONFLUENCE_WRITE_SPACES || '')
+  .split(',')
+  .map((k) => k.trim())
+  .filter(Boolean);
+
+const LABEL_RE = /^[^\s:,;!#&()*\[\]^|]+$/;
+
+export function writeAllowed(spaceKey: string | undefined): boolean {
+  if (!spaceKey) return false;
+  return WRITE_SPACES.includes('*') || WRITE_SPACES.some((k) => k.toUpperCase() === spaceKey.toUpperCase());
+}
+
+const pageIdField = z.string().trim().regex(/^\d+$/, 'Expected a numeric page id');
+const markdownField = z.string().refine((v) => v.trim().length > 0, 'Must not be empty');
+const dryRunField = z.boolean().optional();
+
+export const writeTools = [
+  defineTool({
+    name: 'createPage',
+    description:
+      'Create a Confluence page from Markdown in a space, optionally under a parent page. Only spaces enabled for writes are accepted; use dryRun to preview the request.',
+    input: z.strictObject({
+      spaceKey: z.string().trim().regex(/^~?[A-Za-z0-9_-]+$/, 'Expected a space key').describe('Key of the space to create the page in'),
+      title: z.string().trim().min(1).describe('Page title (must be unique within the space)'),
+      markdown: markdownField.describe('Page body as Markdown'),
+      parentId: pageIdField.optional().describe('Optional id of the parent page'),
+      dryRun: dryRunField.describe('Return the request that would be sent without creating the page'),
+    }),
+    output: writeOutput({ id: z.string(), title: z.string(), spaceKey: z.string(), version: z.number(), url: z.string() }),
+    handler: handleCreatePage,
+  }),
+  defineTool({
+    name: 'updatePage',
+    description:
+      'Replace the body (and optionally the title) of a Confluence page with Markdown. Pass the version you last read; the update fails with VERSION_CONFLICT if the page changed since.',
+    input: z.strictObject({
+      pageId: pageIdField.describe('Id of the page to update'),
+      markdown: markdownField.describe('New page body as Markdown'),
+      version: z.number().int().min(1).optional().describe('Version number the edit is based on (from getPage); strongly recommended'),
+      title: z.string().trim().min(1).optional().describe('New title (default: keep the current title)'),
+      versionMessage: z.string().optional().describe('Optional change comment shown in page history'),
+      dryRun: dryRunField.describe('Return the request that would be sent without updating the page'),
+    }),
+    output: writeOutput({
+      id: z.string(),
+      title: z.string(),
+      spaceKey: z.string(),
+      version: z.number(),
+      previousVersion: z.number(),
+      url: z.string(),
+    }),
+    handler: handleUpdatePage,
+  }),
+  defineTool({
+    name: 'addComment',
+    description: 'Add a footer comment written in Markdown to a Confluence page.',
+    input: z.strictObject({
+      pageId: pageIdField.describe('Id of the page to comment on'),
+      markdown: markdownField.describe('Comment body as Markdown'),
+      dryRun: dryRunField.describe('Return the request that would be sent without adding the comment'),
+    }),
+    output: writeOutput({ id: z.string(), pageId: z.string(), spaceKey: z.string(), url: z.string() }),
+    handler: handleAddComment,
+  }),
+  defineTool({
+    name: 'addLabels',
+    description: 'Add one or more labels to a Confluence page. Existing labels are kept.',
+    input: z.strictObject({
+      pageId: pageIdField.describe('Id of the page to label'),
+      labels: z
+        .array(z.string().trim().max(255).regex(LABEL_RE, 'Labels cannot contain spaces or any of :,;!#&()*[]^|'))
+        .min(1)
+        .describe('Labels to add (no spaces)'),
+      dryRun: dryRunField.describe('Return the request that would be sent without adding the labels'),
+    }),
+    output: writeOutput({ pageId: z.string(), spaceKey: z.string(), labels: z.array(z.string()) }),
+    handler: handleAddLabels,
+  }),
+];
+
+function readPageId(params: any) {
+  const pageId = String(params?.pageId ?? '').trim();
+  if (!pageId) {
+    return toolError('MISSING_INPUT', 'Missing required input: pageId', { missing: ['pageId'] });
+  }
+  if (!/^\d+$/.test(pageId)) {
+    return toolError('INVALID_INPUT', `Invalid page id: ${pageId}`, { pageId });
+  }
+  return { pageId };
+}
+
+function readMarkdown(params: any) {
+  const markdown = typeof params?.markdown === 'string' ? params.markdown : '';
+  if (!markdown.trim()) {
+    return toolError('MISSING_INPUT', 'Missing required input: markdown', { missing: ['markdown'] });
+  }
+  return { markdown };
+}
+
+function forbidden(spaceKey: string | undefined) {
+  return toolError(
+    'WRITE_NOT_ALLOWED',
+    `Writes are not enabled for space ${spaceKey || '(unknown)'}; add it to CONFLUENCE_WRITE_SPACES to allow changes`,
+    { spaceKey },
+  );
+}
+
+// The request a write would send, returned as-is for dryRun
+function plannedRequest(config: AtlassianConfig, method: string, path: string, body: any, spaceKey: string | undefined) {
+  return {
+    dryRun: true,
+    writeAllowed: writeAllowed(spaceKey),
+    request: { method, url: `${config.base}${config.contextPath}${path}`, body },
+  };
+}
+
+// Upstream error text is JSON with a message field on Cloud; fall back to the raw body
+function upstreamMessage(text: string, fallback: string) {
+  try {
+    return JSON.parse(text)?.message || text || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+// POST/PUT a JSON body, mapping failures to the structured tool error shape
+async function confluenceSend(config: AtlassianConfig, method: string, path: string, body: any, subject: string) {
+  const url = `${config.base}${config.contextPath}${path}`;
+  logger.info('Writing to Confluence', { method, url });
+  const res = await atlassianFetch(url, {
+    method,
+    headers: { Authorization: config.authHeader, Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    const message = upstreamMessage(text, res.statusText);
+    logger.warn('Confluence API error', { status: res.status, body: message });
+    if (res.status === 404) return toolError('NOT_FOUND', `${subject} not found or not accessible`);
+    if (res.status === 403 || res.status === 401) {
+      return toolError('FORBIDDEN', `Not permitted to modify ${subject}: ${message}`, { status: res.status });
+    }
+    if (res.status === 409) return toolError('CONFLICT', message, { status: res.status });
+    if (res.status === 400) return toolError('INVALID_INPUT', `Confluence rejected the request: ${message}`, { status: res.status });
+    return toolError('UPSTREAM_ERROR', `API error: ${res.status} - ${message}`, { status: res.status });
+  }
+  return { data: (await res.json()) as any };
+}
+
+// Current title, space and version of a page, needed to authorise and build updates
+async function fetchPageMeta(config: AtlassianConfig, pageId: string) {
+  const page = await confluenceGet(config, `/rest/api/content/${pageId}?expand=space,version,metadata.labels`, `Page ${pageId}`);
+  if ('error' in page) return page;
+  const denied = denialReason({ spaceKey: page.data?.space?.key, labels: contentLabels(page.data) });
+  if (denied) return policyDenied(`Page ${pageId}`, denied);
+  return {
+    title: String(page.data?.title || ''),
+    type: String(page.data?.type || 'page'),
+    spaceKey: page.data?.space?.key as string | undefined,
+    version: Number(page.data?.version?.number) || 0,
+    modifiedBy: page.data?.version?.by?.displayName as string | undefined,
+    modifiedAt: page.data?.version?.when as string | undefined,
+  };
+}
+
+export async function handleCreatePage(params: any, ctx: ToolContext = {}) {
+  const spaceKey = String(params?.spaceKey ?? '').trim();
+  const title = String(params?.title ?? '').trim();
+  const parentId = String(params?.parentId ?? '').trim();
+  const missing = [!spaceKey && 'spaceKey', !title && 'title', !String(params?.markdown ?? '').trim() && 'markdown'].filter(Boolean);
+  if (missing.length) {
+    return toolError('MISSING_INPUT', `Missing required input: ${missing.join(', ')}`, { missing });
+  }
+  if (parentId && !/^\d+$/.test(parentId)) {
+    return toolError('INVALID_INPUT', `Invalid parent page id: ${parentId}`, { parentId });
+  }
+  const denied = denialReason({ spaceKey });
+  if (denied) return policyDenied(`Space ${spaceKey}`, denied);
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    // A page under a hidden parent would show up in its children, so the parent must pass the policy too
+    if (parentId) {
+      const parent = await fetchPageMeta(config, parentId);
+      if ('error' in parent) return parent;
+    }
+
+    const body = {
+      type: 'page',
+      title,
+      space: { key: spaceKey },
+      ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+      body: { storage: { value: markdownToStorage(params.markdown), representation: 'storage' } },
+    };
+    const path = '/rest/api/content';
+    if (params?.dryRun) return plannedRequest(config, 'POST', path, body, spaceKey);
+    if (!writeAllowed(spaceKey)) return forbidden(spaceKey);
+
+    const created = await confluenceSend(config, 'POST', path, body, `Space ${spaceKey}`);
+    if ('error' in created) {
+      if (created.error.code === 'CONFLICT' || /already exists/i.test(created.error.message)) {
+        return toolError('CONFLICT', `A page titled "${title}" already exists in space ${spaceKey}`, { spaceKey, title });
+      }
+      return created;
+    }
+    logger.info('Created page', { pageId: created.data?.id, spaceKey });
+    return {
+      id: String(created.data?.id),
+      title: created.data?.title || title,
+      spaceKey,
+      version: Number(created.data?.version?.number) || 1,
+      url: webUrl(config, created.data?._links?.webui),
+    };
+  } catch (error: any) {
+    logger.error('Error creating page in Confluence', { spaceKey, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { spaceKey, title });
+  }
+}
+
+export async function handleUpdatePage(params: any, ctx: ToolContext = {}) {
+  const id = readPageId(params);
+  if ('error' in id) return id;
+  const md = readMarkdown(params);
+  if ('error' in md) return md;
+  const { pageId } = id;
+
+  const expectedVersion: number | undefined = params?.version;
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const current = await fetchPageMeta(config, pageId);
+    if ('error' in current) return current;
+
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      return toolError(
+        'VERSION_CONFLICT',
+        `Page ${pageId} is at version ${current.version} but the edit is based on version ${expectedVersion}; fetch the page again and reapply the change`,
+        { pageId, expectedVersion, currentVersion: current.version, modifiedBy: current.modifiedBy, modifiedAt: current.modifiedAt },
+      );
+    }
+
+    const title = String(params?.title ?? '').trim() || current.title;
+    const message = String(params?.versionMessage ?? '').trim();
+    const body = {
+      id: pageId,
+      type: current.type,
+      title,
+      version: { number: current.version + 1, ...(message ? { message } : {}) },
+      body: { storage: { value: markdownToStorage(md.markdown), representation: 'storage' } },
+    };
+    const path = `/rest/api/content/${pageId}`;
+    if (params?.dryRun) return plannedRequest(config, 'PUT', path, body, current.spaceKey);
+    if (!writeAllowed(current.spaceKey)) return forbidden(current.spaceKey);
+
+    const updated = await confluenceSend(config, 'PUT', path, body, `Page ${pageId}`);
+    if ('error' in updated) {
+      // Someone saved between our read and write
+      if (updated.error.code === 'CONFLICT') {
+        return toolError(
+          'VERSION_CONFLICT',
+          `Page ${pageId} was modified while updating (expected to create version ${current.version + 1}); fetch the page again and reapply the change`,
+          { pageId, expectedVersion: current.version },
+        );
+      }
+      return updated;
+    }
+    logger.info('Updated page', { pageId, version: updated.data?.version?.number });
+    return {
+      id: pageId,
+      title: updated.data?.title || title,
+      spaceKey: current.spaceKey,
+      version: Number(updated.data?.version?.number) || current.version + 1,
+      previousVersion: current.version,
+      url: webUrl(config, updated.data?._links?.webui),
+    };
+  } catch (error: any) {
+    logger.error('Error updating page in Confluence', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
+
+export async function handleAddComment(params: any, ctx: ToolContext = {}) {
+  const id = readPageId(params);
+  if ('error' in id) return id;
+  const md = readMarkdown(params);
+  if ('error' in md) return md;
+  const { pageId } = id;
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const page = await fetchPageMeta(config, pageId);
+    if ('error' in page) return page;
+
+    const body = {
+      type: 'comment',
+      container: { id: pageId, type: page.type },
+      body: { storage: { value: markdownToStorage(md.markdown), representation: 'storage' } },
+    };
+    const path = '/rest/api/content';
+    if (params?.dryRun) return plannedRequest(config, 'POST', path, body, page.spaceKey);
+    if (!writeAllowed(page.spaceKey)) return forbidden(page.spaceKey);
+
+    const created = await confluenceSend(config, 'POST', path, body, `Page ${pageId}`);
+    if ('error' in created) return created;
+    return {
+      id: String(created.data?.id),
+      pageId,
+      spaceKey: page.spaceKey,
+      url: webUrl(config, created.data?._links?.webui),
+    };
+  } catch (error: any) {
+    logger.error('Error adding comment in Confluence', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
+
+export async function handleAddLabels(params: any, ctx: ToolContext = {}) {
+  const id = readPageId(params);
+  if ('error' in id) return id;
+  const { pageId } = id;
+
+  const labels = [...new Set<string>((params?.labels || []).map((l: string) => l.toLowerCase()).filter(Boolean))];
+  if (!labels.length) {
+    return toolError('MISSING_INPUT', 'Missing required input: labels', { missing: ['labels'] });
+  }
+
+  const config = await getConfluenceConfig(ctx);
+  if ('error' in config) return config;
+
+  try {
+    const page = await fetchPageMeta(config, pageId);
+    if ('error' in page) return page;
+
+    const body = labels.map((name) => ({ prefix: 'global', name }));
+    const path = `/rest/api/content/${pageId}/label`;
+    if (params?.dryRun) return plannedRequest(config, 'POST', path, body, page.spaceKey);
+    if (!writeAllowed(page.spaceKey)) return forbidden(page.spaceKey);
+
+    const added = await confluenceSend(config, 'POST', path, body, `Page ${pageId}`);
+    if ('error' in added) return added;
+    return {
+      pageId,
+      spaceKey: page.spaceKey,
+      labels: (added.data?.results || []).map((l: any) => l?.name).filter(Boolean),
+    };
+  } catch (error: any) {
+    logger.error('Error adding labels in Confluence', { pageId, err: error });
+    return toolError('UPSTREAM_ERROR', describeFetchError(error), { pageId });
+  }
+}
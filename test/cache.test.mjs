@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+
+// The cache reads its settings at import
+process.env.CACHE_TTL_SECONDS = '60';
+
+let cache;
+
+before(async () => {
+  cache = await import('../dist/cache.js');
+});
+
+const tick = () => new Promise((r) => setTimeout(r, 10));
+
+// A load that counts its calls and answers after a moment, so concurrent reads overlap
+function counted(data) {
+  const load = async () => {
+    load.calls++;
+    await tick();
+    return { data };
+  };
+  load.calls = 0;
+  return load;
+}
+
+test('concurrent reads in the same tool share one upstream call', async () => {
+  const load = counted({ id: 1 });
+  const read = () => cache.withCache('getPage', 60_000, () => cache.cachedRead('coalesce|/page/1', load));
+  const [first, second] = await Promise.all([read(), read()]);
+  assert.equal(load.calls, 1);
+  assert.deepEqual(second.out, { data: { id: 1 } });
+  assert.equal(first.cache.status, 'miss');
+  assert.equal(second.cache.status, 'hit');
+});
+
+test('reads with another TTL or revalidation mode do not join an in-flight read', async () => {
+  const load = counted({ id: 2 });
+  await Promise.all([
+    cache.withCache('getPage', 60_000, () => cache.cachedRead('ttl|/page/2', load)),
+    cache.withCache('searchPages', 5_000, () => cache.cachedRead('ttl|/page/2', load)),
+    cache.withCache('getPage', 60_000, () => cache.cachedRead('ttl|/page/2', load, async () => undefined)),
+  ]);
+  assert.equal(load.calls, 3);
+});
+
+test('an expired entry is reused when revalidation finds it current', async () => {
+  const load = counted({ id: 3, version: 1 });
+  await cache.withCache('getPage', 1, () => cache.cachedRead('stale|/page/3', load));
+  await tick();
+
+  const current = await cache.withCache('getPage', 60_000, () => cache.cachedRead('stale|/page/3', load, async (stale) => stale));
+  assert.equal(load.calls, 1);
+  assert.deepEqual(current.cache, { status: 'hit', hits: 1, misses: 0, revalidated: 1 });
+
+  await cache.withCache('getPage', 1, () => cache.cachedRead('changed|/page/3', load));
+  await tick();
+  const changed = await cache.withCache('getPage', 60_000, () => cache.cachedRead('changed|/page/3', load, async () => undefined));
+  assert.equal(load.calls, 3);
+  assert.equal(changed.cache.status, 'miss');
+});
+
+test('failed reads are not cached', async () => {
+  let calls = 0;
+  const load = async () => (++calls === 1 ? { error: { code: 'UPSTREAM_ERROR', message: 'down' } } : { data: 'ok' });
+  const first = await cache.withCache('getPage', 60_000, () => cache.cachedRead('failed|/page/4', load));
+  assert.equal(first.out.error.code, 'UPSTREAM_ERROR');
+  const second = await cache.withCache('getPage', 60_000, () => cache.cachedRead('failed|/page/4', load));
+  assert.deepEqual(second.out, { data: 'ok' });
+  assert.equal(calls, 2);
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+
+// The client reads its tunables at import, so they are set before loading it
+Object.assign(process.env, { ATLASSIAN_MAX_RETRIES: '2', ATLASSIAN_BREAKER_THRESHOLD: '3', ATLASSIAN_BREAKER_COOLDOWN_MS: '1000' });
+
+let client;
+let responder;
+const requests = [];
+
+before(async () => {
+  client = await import('../dist/client.js');
+  const { setBackend } = await import('../dist/backend.js');
+  setBackend({
+    name: 'test',
+    fetch: (url, init) => {
+      requests.push({ url, method: init.method || 'GET' });
+      return responder(url, init);
+    },
+  });
+});
+
+// Every reply says Retry-After: 0 so retries don't wait
+const reply = (status) => new Response('{}', { status, headers: { 'Retry-After': '0' } });
+
+function answer(...statuses) {
+  requests.length = 0;
+  let i = 0;
+  responder = async () => reply(statuses[Math.min(i++, statuses.length - 1)]);
+}
+
+const cooldown = () => new Promise((r) => setTimeout(r, 1100));
+
+test('retries 5xx and 429 until a response succeeds', async () => {
+  answer(503, 429, 200);
+  const res = await client.atlassianFetch('https://retry.example.net/rest/api/space');
+  assert.equal(res.status, 200);
+  assert.equal(requests.length, 3);
+});
+
+test('returns the last response when retries run out', async () => {
+  answer(429);
+  const res = await client.atlassianFetch('https://throttled.example.net/rest/api/space');
+  assert.equal(res.status, 429);
+  assert.equal(requests.length, 3);
+  // Throttling does not trip the breaker
+  assert.equal(client.breakerStatus().find((b) => b.host === 'throttled.example.net').state, 'closed');
+});
+
+test('does not retry writes or client errors', async () => {
+  answer(503);
+  assert.equal((await client.atlassianFetch('https://writes.example.net/rest/api/content', { method: 'POST' })).status, 503);
+  assert.equal(requests.length, 1);
+
+  answer(404);
+  assert.equal((await client.atlassianFetch('https://writes.example.net/rest/api/content/1')).status, 404);
+  assert.equal(requests.length, 1);
+});
+
+test('opens the circuit after repeated failures and closes it after a successful probe', async () => {
+  answer(500);
+  await client.atlassianFetch('https://down.example.net/rest/api/space');
+  assert.equal(requests.length, 3);
+
+  await assert.rejects(client.atlassianFetch('https://down.example.net/rest/api/space'), client.CircuitOpenError);
+  assert.equal(requests.length, 3);
+
+  await cooldown();
+  answer(200);
+  assert.equal((await client.atlassianFetch('https://down.example.net/rest/api/space')).status, 200);
+  assert.equal(client.breakerStatus().find((b) => b.host === 'down.example.net').state, 'closed');
+});
+
+test('a cancelled probe lets the next request probe again', async () => {
+  answer(500);
+  await client.atlassianFetch('https://flaky.example.net/rest/api/space');
+  await cooldown();
+
+  // The probe hangs until its caller gives up
+  responder = (_url, init) => new Promise((_resolve, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+  const caller = new AbortController();
+  const probe = client.atlassianFetch('https://flaky.example.net/rest/api/space', { signal: caller.signal });
+  caller.abort();
+  await assert.rejects(probe);
+
+  answer(200);
+  assert.equal((await client.atlassianFetch('https://flaky.example.net/rest/api/space')).status, 200);
+});
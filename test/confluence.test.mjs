@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('site.json'));
+});
+
+after(() => server?.stop());
+
+test('lists the tools', async () => {
+  const { result } = await server.rpc('tools/list');
+  const names = result.tools.map((t) => t.name);
+  for (const name of ['searchPages', 'getPage', 'searchIssues', 'getIssue', 'listTransitions']) assert.ok(names.includes(name), name);
+});
+
+test('searches pages', async () => {
+  const out = await server.call('searchPages', { query: 'kubectl' });
+  assert.equal(out.cql, 'type = page and text ~ "kubectl"');
+  assert.deepEqual(out.results.map((r) => r.title), ['Deploy guide', 'Rollback runbook']);
+  assert.equal(out.results[0].url, 'https://fake.example.net/wiki/spaces/ENG/pages/2/Deploy+guide');
+});
+
+test('filters a search by space, label, ancestor and date', async () => {
+  const bySpace = await server.call('searchPages', { query: 'deploy', spaceKey: 'OPS' });
+  assert.deepEqual(bySpace.results.map((r) => r.id), ['10']);
+
+  const byLabel = await server.call('searchPages', { query: 'roll', labels: ['runbook'], ancestorId: '1', sort: 'title' });
+  assert.deepEqual(byLabel.results.map((r) => r.title), ['Deploy guide', 'Rollback runbook']);
+
+  const recent = await server.call('searchPages', { query: 'deploy', modifiedAfter: '2026-01-01', sort: 'lastModified' });
+  assert.deepEqual(recent.results.map((r) => r.id), ['2', '10', '1']);
+});
+
+test('pages through search results with a cursor', async () => {
+  const first = await server.call('searchPages', { query: 'deploy', limit: 2, maxResults: 2 });
+  assert.equal(first.results.length, 2);
+  assert.ok(first.pagination.nextCursor);
+  const second = await server.call('searchPages', { query: 'deploy', limit: 2, cursor: first.pagination.nextCursor });
+  const ids = [...first.results, ...second.results].map((r) => r.id);
+  assert.deepEqual(ids.sort(), ['1', '10', '2', '3']);
+});
+
+test('gets a page as Markdown', async () => {
+  const page = await server.call('getPage', { pageId: '2' });
+  assert.equal(page.title, 'Deploy guide');
+  assert.equal(page.spaceKey, 'ENG');
+  assert.match(page.markdown, /^## Steps/);
+  assert.match(page.markdown, /```sh\nnpm run build\n```/);
+});
+
+test('reports a missing page as a tool error', async () => {
+  const out = await server.call('getPage', { pageId: '999' });
+  assert.equal(out.error.code, 'NOT_FOUND');
+});
+
+test('rejects invalid search filters as invalid params', async () => {
+  await assert.rejects(server.call('searchPages', { query: 'deploy', modifiedAfter: 'last tuesday' }), (error) => {
+    assert.equal(error.rpc.code, -32602);
+    assert.match(error.message, /modifiedAfter must be a date/);
+    return true;
+  });
+});
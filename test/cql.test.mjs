@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildPageSearchCql, CqlError, dateValue, parsePageSearchFilters } from '../dist/cql.js';
+
+test('builds CQL from search filters', () => {
+  const filters = parsePageSearchFilters({ spaceKey: 'ENG', labels: 'runbook, ops', ancestorId: '12', sort: 'title' }, 'deploy "prod"');
+  assert.equal(
+    buildPageSearchCql(filters),
+    'type = page and text ~ "deploy \\"prod\\"" and space = "ENG" and label in ("runbook", "ops") and ancestor = 12 order by title asc',
+  );
+});
+
+test('searches titles only and several content types', () => {
+  const filters = parsePageSearchFilters({ titleOnly: true, types: ['page', 'blogpost'] }, 'notes');
+  assert.equal(buildPageSearchCql(filters), 'type in (page, blogpost) and title ~ "notes"');
+});
+
+test('maps dates and relative offsets', () => {
+  assert.equal(dateValue('modifiedAfter', '2026-02-03'), '"2026-02-03"');
+  assert.equal(dateValue('modifiedAfter', '2026-02-03 14:30'), '"2026-02-03 14:30"');
+  assert.equal(dateValue('modifiedAfter', '-7d'), 'now("-7d")');
+  assert.equal(dateValue('modifiedAfter', '12h'), 'now("-12h")');
+  assert.equal(dateValue('modifiedAfter', '-3m'), 'now("-3M")');
+  assert.equal(dateValue('modifiedAfter', '-3M'), 'now("-3M")');
+  assert.equal(dateValue('modifiedAfter', '-1Y'), 'now("-1y")');
+});
+
+test('rejects bad filters', () => {
+  assert.throws(() => dateValue('modifiedAfter', '2026-02-30'), CqlError);
+  assert.throws(() => dateValue('modifiedAfter', 'yesterday'), /modifiedAfter must be a date/);
+  assert.throws(() => parsePageSearchFilters({ spaceKey: 'ENG; drop' }, 'x'), /Invalid space key/);
+  assert.throws(() => parsePageSearchFilters({ labels: ['two words'] }, 'x'), /whitespace/);
+  assert.throws(() => parsePageSearchFilters({ ancestorId: 'abc' }, 'x'), /numeric page id/);
+});
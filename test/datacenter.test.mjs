@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { before, beforeEach, test } from 'node:test';
+import { fixture } from './helpers.mjs';
+
+// Profiles are read from the environment on first use
+Object.assign(process.env, {
+  CONFLUENCE_BASE_URL: 'https://dc.example.net',
+  CONFLUENCE_FLAVOR: 'datacenter',
+  CONFLUENCE_CONTEXT_PATH: '/confluence',
+  CONFLUENCE_PAT: 'service-pat',
+  LOG_LEVEL: 'error',
+});
+
+let confluence;
+let navigation;
+let writes;
+// What each request went to and with which credential
+const sent = [];
+
+before(async () => {
+  const { FakeConfluence } = await import('../dist/fake-confluence.js');
+  const { setBackend } = await import('../dist/backend.js');
+  const fake = new FakeConfluence(JSON.parse(readFileSync(fixture('datacenter.json'), 'utf8')));
+  setBackend({
+    name: 'test',
+    fetch: (url, init) => {
+      sent.push({ url, authorization: new Headers(init.headers).get('Authorization') });
+      return fake.fetch(url, init);
+    },
+  });
+  confluence = await import('../dist/confluence.js');
+  navigation = await import('../dist/navigation.js');
+  writes = await import('../dist/writes.js');
+});
+
+beforeEach(() => {
+  sent.length = 0;
+});
+
+test('calls the REST API under the context path with the Personal Access Token', async () => {
+  const page = await confluence.fetchPageMarkdown('2');
+  assert.equal(page.title, 'Deploy guide');
+  assert.equal(page.url, 'https://dc.example.net/confluence/pages/viewpage.action?pageId=2');
+  assert.equal(sent.length, 1);
+  assert.match(sent[0].url, /^https:\/\/dc\.example\.net\/confluence\/rest\/api\/content\/2\?/);
+  assert.equal(sent[0].authorization, 'Bearer service-pat');
+});
+
+test('builds Data Center space links', async () => {
+  const out = await navigation.handleListSpaces({});
+  assert.deepEqual(out.spaces.map((s) => [s.key, s.url]), [['ENG', 'https://dc.example.net/confluence/display/ENG']]);
+  assert.match(sent[0].url, /^https:\/\/dc\.example\.net\/confluence\/rest\/api\/space\?/);
+});
+
+test("sends a caller's bearer token to the site itself", async () => {
+  const page = await confluence.fetchPageMarkdown('1', { userCredential: { kind: 'oauth', accessToken: 'user-pat' } });
+  assert.equal(page.title, 'Engineering Home');
+  assert.deepEqual(sent.map((s) => [new URL(s.url).host, s.authorization]), [['dc.example.net', 'Bearer user-pat']]);
+});
+
+test('plans writes against the context path', async () => {
+  const out = await writes.handleCreatePage({ spaceKey: 'ENG', title: 'Runbook', markdown: 'Steps', parentId: '1', dryRun: true });
+  assert.equal(out.request.url, 'https://dc.example.net/confluence/rest/api/content');
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { FakeConfluence } from '../dist/fake-confluence.js';
+
+const ago = (minutes) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+const fake = new FakeConfluence({
+  pages: [
+    { id: '1', spaceKey: 'ENG', title: 'Ten minutes old', lastModified: ago(10) },
+    { id: '2', spaceKey: 'ENG', title: 'Two hours old', lastModified: ago(120) },
+    { id: '3', spaceKey: 'ENG', title: 'Twenty days old', lastModified: ago(20 * 24 * 60) },
+  ],
+});
+
+async function searchIds(cql) {
+  const res = await fake.fetch(`https://fake.example.net/wiki/rest/api/search?cql=${encodeURIComponent(cql)}`, { headers: { Authorization: 'Basic x' } });
+  const body = await res.json();
+  assert.equal(res.status, 200, body.message);
+  return body.results.map((r) => r.content.id);
+}
+
+test('reads now() offsets with CQL units', async () => {
+  assert.deepEqual(await searchIds('lastmodified >= now("-30m")'), ['1']);
+  assert.deepEqual(await searchIds('lastmodified >= now("-3h")'), ['1', '2']);
+  assert.deepEqual(await searchIds('lastmodified >= now("-1w")'), ['1', '2']);
+  assert.deepEqual(await searchIds('lastmodified >= now("-1M")'), ['1', '2', '3']);
+});
+
+test('rejects unknown now() units', async () => {
+  const res = await fake.fetch(`https://fake.example.net/wiki/rest/api/search?cql=${encodeURIComponent('lastmodified >= now("-3q")')}`, {
+    headers: { Authorization: 'Basic x' },
+  });
+  assert.equal(res.status, 400);
+});
@@ -0,0 +1,93 @@
+import { spawn } from 'child_process';
+import { createServer } from 'net';
+import { fileURLToPath } from 'url';
+
+/*
+ * Runs dist/server.js against the fake backend on a free port and talks
+ * JSON-RPC to its /mcp endpoint. The tests need a build first (npm test
+ * runs one).
+ */
+
+const SERVER = fileURLToPath(new URL('../dist/server.js', import.meta.url));
+
+export const fixture = (name) => fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+export async function startServer(fixtureFile, env = {}) {
+  const port = await freePort();
+  const child = spawn(process.execPath, [SERVER], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      LOG_LEVEL: 'error',
+      ATLASSIAN_BACKEND: 'fake',
+      FAKE_CONFLUENCE_FIXTURES: fixtureFile,
+      CONFLUENCE_BASE_URL: 'https://fake.example.net',
+      CONFLUENCE_EMAIL: 'tester@example.net',
+      CONFLUENCE_API_TOKEN: 'offline',
+      ...env,
+    },
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  let stderr = '';
+  child.stderr.on('data', (chunk) => (stderr += chunk));
+
+  const url = `http://127.0.0.1:${port}`;
+  const deadline = Date.now() + 10_000;
+  for (;;) {
+    if (child.exitCode !== null) throw new Error(`Server exited with ${child.exitCode}: ${stderr}`);
+    try {
+      if ((await fetch(`${url}/healthz`)).ok) break;
+    } catch {
+      // Not listening yet
+    }
+    if (Date.now() > deadline) {
+      child.kill();
+      throw new Error(`Server did not start: ${stderr}`);
+    }
+    await new Promise((r) => setTimeout(r, 100));
+  }
+
+  let nextId = 1;
+  const server = {
+    url,
+    // POST a JSON-RPC body (object, batch array or raw string) to /mcp
+    async post(body, headers = {}) {
+      const res = await fetch(`${url}/mcp`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', accept: 'application/json', ...headers },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      });
+      const text = await res.text();
+      return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : undefined };
+    },
+    async rpc(method, params) {
+      return (await server.post({ jsonrpc: '2.0', id: nextId++, method, params })).body;
+    },
+    // A tool's structured result; tool errors come back as { error }
+    async call(name, args = {}) {
+      const reply = await server.rpc('tools/call', { name, arguments: args });
+      if (reply.error) throw Object.assign(new Error(reply.error.message), { rpc: reply.error });
+      const { result } = reply;
+      return result.isError ? JSON.parse(result.content[0].text) : result.structuredContent;
+    },
+    stop() {
+      return new Promise((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.once('exit', resolve);
+        child.kill();
+      });
+    },
+  };
+  return server;
+}
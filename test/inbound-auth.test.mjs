@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+const ping = (n) => ({ jsonrpc: '2.0', id: n, method: 'ping' });
+
+describe('rate limiting by IP', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer(fixture('site.json'), { MCP_RATE_LIMIT_PER_MINUTE: '2', MCP_RATE_LIMIT_BURST: '2' });
+  });
+
+  after(() => server?.stop());
+
+  test('ignores X-Forwarded-For from an untrusted peer', async () => {
+    const statuses = [];
+    for (let n = 1; n <= 3; n++) statuses.push((await server.post(ping(n), { 'x-forwarded-for': `203.0.113.${n}` })).status);
+    assert.deepEqual(statuses, [200, 200, 429]);
+  });
+});
+
+describe('JWT authentication', () => {
+  const p256 = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const p384 = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+  const dir = mkdtempSync(join(tmpdir(), 'mcp-jwks-'));
+  let server;
+
+  const jwk = (pair, kid) => ({ ...pair.publicKey.export({ format: 'jwk' }), kid, use: 'sig' });
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  function token(alg, kid, privateKey, hash) {
+    const claims = { sub: 'tester', scp: 'mcp.read', exp: Math.floor(Date.now() / 1000) + 300 };
+    const input = `${encode({ alg, kid, typ: 'JWT' })}.${encode(claims)}`;
+    const signature = sign(hash, Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${input}.${signature.toString('base64url')}`;
+  }
+
+  before(async () => {
+    const jwks = join(dir, 'jwks.json');
+    writeFileSync(jwks, JSON.stringify({ keys: [jwk(p256, 'p256'), jwk(p384, 'p384')] }));
+    server = await startServer(fixture('site.json'), { MCP_JWT_JWKS_FILE: jwks });
+  });
+
+  after(async () => {
+    await server?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('accepts a token signed with the matching curve', async () => {
+    const res = await server.post(ping(1), { authorization: `Bearer ${token('ES256', 'p256', p256.privateKey, 'sha256')}` });
+    assert.equal(res.status, 200);
+  });
+
+  test('rejects an ES256 token signed with a P-384 key', async () => {
+    const res = await server.post(ping(2), { authorization: `Bearer ${token('ES256', 'p384', p384.privateKey, 'sha256')}` });
+    assert.equal(res.status, 401);
+    assert.match(res.body.error.message, /curve/);
+  });
+
+  test('rejects a token without a signature', async () => {
+    const [header, claims] = token('ES256', 'p256', p256.privateKey, 'sha256').split('.');
+    const res = await server.post(ping(3), { authorization: `Bearer ${header}.${claims}.` });
+    assert.equal(res.status, 401);
+  });
+});
+
+describe('API keys', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'mcp-keys-'));
+  let server;
+
+  before(async () => {
+    const keys = join(dir, 'keys.json');
+    writeFileSync(keys, JSON.stringify({ keys: [{ id: 'reader', key: 'reader-key-0123456789', scopes: ['read'] }, { id: 'writer', key: 'writer-key-0123456789', scopes: ['read', 'write'] }, { id: 'ops', key: 'admin-key-0123456789', scopes: ['admin'] }] }));
+    server = await startServer(fixture('site.json'), { MCP_API_KEYS_FILE: keys });
+  });
+
+  after(async () => {
+    await server?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function describedTools(key) {
+    const res = await server.post({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'describeTools', arguments: {} } }, { 'x-api-key': key });
+    return res.body.result.structuredContent.tools.map((t) => t.name);
+  }
+
+  test('describeTools lists only the tools the caller may use', async () => {
+    assert.ok(!(await describedTools('reader-key-0123456789')).includes('createPage'));
+    assert.ok((await describedTools('writer-key-0123456789')).includes('createPage'));
+  });
+
+  test('metrics need the admin scope', async () => {
+    const scrape = (headers = {}) => fetch(`${server.url}/metrics`, { headers }).then((res) => res.status);
+    assert.equal(await scrape(), 401);
+    assert.equal(await scrape({ 'x-api-key': 'reader-key-0123456789' }), 403);
+    assert.equal(await scrape({ 'x-api-key': 'admin-key-0123456789' }), 200);
+  });
+});
+
+describe('failed authentication', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'mcp-keys-'));
+  let server;
+
+  before(async () => {
+    const keys = join(dir, 'keys.json');
+    writeFileSync(keys, JSON.stringify({ keys: [{ id: 'reader', key: 'reader-key-0123456789', scopes: ['read'] }] }));
+    server = await startServer(fixture('site.json'), { MCP_API_KEYS_FILE: keys, MCP_AUTH_FAILURES_PER_MINUTE: '2' });
+  });
+
+  after(async () => {
+    await server?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('turns an address away after repeated bad credentials, even with a valid key', async () => {
+    const statuses = [];
+    for (let n = 1; n <= 3; n++) statuses.push((await server.post(ping(n), { 'x-api-key': `wrong-key-${n}` })).status);
+    assert.deepEqual(statuses, [401, 401, 429]);
+
+    const res = await server.post(ping(4), { 'x-api-key': 'reader-key-0123456789' });
+    assert.equal(res.status, 429);
+    assert.ok(Number(res.headers.get('retry-after')) >= 1);
+  });
+});
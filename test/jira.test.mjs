@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+describe('Jira on Cloud', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer(fixture('site.json'));
+  });
+
+  after(() => server?.stop());
+
+  test('searches issues with JQL', async () => {
+    const out = await server.call('searchIssues', { jql: 'project = ENG and assignee = Ada order by key' });
+    assert.deepEqual(out.results.map((i) => i.key), ['ENG-1', 'ENG-3']);
+    assert.deepEqual(
+      { status: out.results[0].status, priority: out.results[0].priority, url: out.results[0].url },
+      { status: 'In Progress', priority: 'High', url: 'https://fake.example.net/browse/ENG-1' },
+    );
+  });
+
+  test('pages through issues with nextPageToken', async () => {
+    const first = await server.call('searchIssues', { jql: 'project in (ENG, OPS) order by key', limit: 2, maxResults: 2 });
+    assert.deepEqual(first.results.map((i) => i.key), ['ENG-1', 'ENG-2']);
+    assert.ok(first.pagination.nextCursor);
+    const rest = await server.call('searchIssues', { jql: 'project in (ENG, OPS) order by key', limit: 2, cursor: first.pagination.nextCursor });
+    assert.deepEqual(rest.results.map((i) => i.key), ['ENG-3', 'OPS-1']);
+    assert.equal(rest.pagination.nextCursor, undefined);
+  });
+
+  test('gets an issue with its description, comments and links', async () => {
+    const issue = await server.call('getIssue', { issueKey: 'eng-1', maxComments: 1 });
+    assert.equal(issue.key, 'ENG-1');
+    assert.equal(issue.description, 'The **deploy** step times out after 10 minutes.');
+    assert.deepEqual(issue.comments.map((c) => [c.author, c.body]), [['Ada', 'Fixed the `timeout` in the job.']]);
+    assert.equal(issue.commentCount, 2);
+    assert.deepEqual(issue.linkedIssues.map((l) => [l.relation, l.key, l.status]), [['blocks', 'ENG-2', 'To Do']]);
+  });
+
+  test('lists transitions', async () => {
+    const out = await server.call('listTransitions', { issueKey: 'ENG-1' });
+    assert.deepEqual(out.transitions.map((t) => [t.id, t.toStatus]), [['31', 'Done'], ['11', 'To Do']]);
+  });
+
+  test('reports missing issues and bad JQL as tool errors', async () => {
+    const missing = await server.call('getIssue', { issueKey: 'ENG-99' });
+    assert.equal(missing.error.code, 'NOT_FOUND');
+
+    const badJql = await server.call('searchIssues', { jql: 'sprint in openSprints()' });
+    assert.equal(badJql.error.code, 'UPSTREAM_ERROR');
+    assert.equal(badJql.error.details.status, 400);
+  });
+});
+
+describe('Data Center', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer(fixture('datacenter.json'), {
+      CONFLUENCE_BASE_URL: 'https://dc.example.net/confluence',
+      CONFLUENCE_FLAVOR: 'datacenter',
+      CONFLUENCE_EMAIL: '',
+      CONFLUENCE_API_TOKEN: '',
+      CONFLUENCE_PAT: 'offline',
+      JIRA_BASE_URL: 'https://dc.example.net/jira',
+    });
+  });
+
+  after(() => server?.stop());
+
+  test('pages through issues by startAt', async () => {
+    const first = await server.call('searchIssues', { jql: 'project = ENG order by key', limit: 2, maxResults: 2 });
+    assert.deepEqual(first.results.map((i) => i.key), ['ENG-1', 'ENG-2']);
+    assert.equal(first.results[0].url, 'https://dc.example.net/jira/browse/ENG-1');
+    const rest = await server.call('searchIssues', { jql: 'project = ENG order by key', limit: 2, cursor: first.pagination.nextCursor });
+    assert.deepEqual(rest.results.map((i) => i.key), ['ENG-3']);
+  });
+
+  test('pages through search results by start offset', async () => {
+    const first = await server.call('searchPages', { query: 'deploy', limit: 2, maxResults: 2 });
+    assert.equal(first.results[0].url, 'https://dc.example.net/confluence/pages/viewpage.action?pageId=1');
+    const rest = await server.call('searchPages', { query: 'deploy', limit: 2, cursor: first.pagination.nextCursor });
+    assert.deepEqual([...first.results, ...rest.results].map((r) => r.id), ['1', '2', '3']);
+  });
+});
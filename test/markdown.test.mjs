@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeEntities, markdownToStorage, storageToMarkdown } from '../dist/markdown.js';
+
+test('decodes named and numeric entities', () => {
+  assert.equal(decodeEntities('a &amp; b &lt;c&gt; &#233; &#x1F600; &unknown;'), 'a & b <c> é 😀 &unknown;');
+});
+
+test('keeps out-of-range numeric entities as written', () => {
+  assert.equal(decodeEntities('&#x110000; &#99999999999; ok'), '&#x110000; &#99999999999; ok');
+  assert.equal(storageToMarkdown('<p>bad &#x7FFFFFFF; ref</p>'), 'bad &#x7FFFFFFF; ref');
+});
+
+test('round-trips Markdown through storage format', () => {
+  const md = '## Steps\n\n1. Build\n2. Ship with `npm run deploy`\n\n[Docs](https://example.net)';
+  assert.equal(storageToMarkdown(markdownToStorage(md)), md);
+});
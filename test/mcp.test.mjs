@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('site.json'));
+});
+
+after(() => server?.stop());
+
+test('initialize opens a session', async () => {
+  const res = await server.post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } });
+  assert.equal(res.status, 200);
+  assert.ok(res.headers.get('mcp-session-id'));
+  assert.ok(res.body.result.serverInfo.name);
+});
+
+test('answers a batch in one response', async () => {
+  const res = await server.post([
+    { jsonrpc: '2.0', id: 1, method: 'ping' },
+    { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'getPage', arguments: { pageId: '3' } } },
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'noSuchTool', arguments: {} } },
+  ]);
+  assert.equal(res.status, 200);
+  assert.deepEqual(res.body.map((r) => r.id), [1, 2, 3]);
+  assert.equal(res.body[1].result.structuredContent.title, 'Release notes');
+  assert.equal(res.body[2].error.code, -32601);
+});
+
+test('answers a batch of notifications with 202', async () => {
+  const res = await server.post([{ jsonrpc: '2.0', method: 'notifications/initialized' }]);
+  assert.equal(res.status, 202);
+});
+
+test('reports malformed requests', async () => {
+  const parse = await server.post('{"jsonrpc": "2.0", ');
+  assert.equal(parse.body.error.code, -32700);
+
+  const unknown = await server.rpc('no/such/method');
+  assert.equal(unknown.error.code, -32601);
+
+  const badArgs = await server.rpc('tools/call', { name: 'getPage', arguments: { pageId: 7 } });
+  assert.equal(badArgs.error.code, -32602);
+});
+
+test('keeps a session with an open GET stream alive past its idle timeout', async () => {
+  const short = await startServer(fixture('site.json'), { SESSION_TTL_MS: '1000' });
+  try {
+    const init = await short.post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } });
+    const sessionHeaders = { 'mcp-session-id': init.headers.get('mcp-session-id') };
+    const stream = new AbortController();
+    const res = await fetch(`${short.url}/mcp`, { headers: { accept: 'text/event-stream', ...sessionHeaders }, signal: stream.signal });
+    assert.equal(res.status, 200);
+
+    await new Promise((r) => setTimeout(r, 2500));
+    const ping = await short.post({ jsonrpc: '2.0', id: 2, method: 'ping' }, sessionHeaders);
+    assert.equal(ping.status, 200);
+    stream.abort();
+
+    await new Promise((r) => setTimeout(r, 2500));
+    const expired = await short.post({ jsonrpc: '2.0', id: 3, method: 'ping' }, sessionHeaders);
+    assert.equal(expired.status, 404);
+  } finally {
+    await short.stop();
+  }
+});
+
+test('refuses new sessions beyond MCP_MAX_SESSIONS until one ends', async () => {
+  const capped = await startServer(fixture('site.json'), { MCP_MAX_SESSIONS: '2' });
+  try {
+    const init = (n) => capped.post({ jsonrpc: '2.0', id: n, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } });
+    const first = await init(1);
+    assert.equal((await init(2)).status, 200);
+
+    const refused = await init(3);
+    assert.equal(refused.status, 503);
+    assert.equal(refused.body.error.code, -32004);
+
+    await fetch(`${capped.url}/mcp`, { method: 'DELETE', headers: { 'mcp-session-id': first.headers.get('mcp-session-id') } });
+    assert.equal((await init(4)).status, 200);
+  } finally {
+    await capped.stop();
+  }
+});
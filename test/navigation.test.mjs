@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('site.json'));
+});
+
+after(() => server?.stop());
+
+test('lists spaces with their homepages', async () => {
+  const out = await server.call('listSpaces', {});
+  assert.deepEqual(out.spaces.map((s) => [s.key, s.name, s.homepageId]), [['ENG', 'Engineering', '1'], ['OPS', 'Operations', '10']]);
+
+  const only = await server.call('listSpaces', { spaceKeys: ['OPS'] });
+  assert.deepEqual(only.spaces.map((s) => s.key), ['OPS']);
+});
+
+test('pages through spaces with a cursor', async () => {
+  const first = await server.call('listSpaces', { limit: 1, maxResults: 1 });
+  assert.equal(first.spaces.length, 1);
+  assert.ok(first.nextCursor);
+  const second = await server.call('listSpaces', { limit: 1, maxResults: 1, cursor: first.nextCursor });
+  assert.deepEqual([...first.spaces, ...second.spaces].map((s) => s.key).sort(), ['ENG', 'OPS']);
+});
+
+test('lists the direct children of a page, a page at a time', async () => {
+  const all = await server.call('getChildren', { pageId: '1' });
+  assert.deepEqual(all.children.map((c) => c.title), ['Deploy guide', 'Release notes']);
+  assert.equal(all.nextCursor, undefined);
+
+  const first = await server.call('getChildren', { pageId: '1', maxResults: 1 });
+  assert.deepEqual(first.children.map((c) => c.id), ['2']);
+  const second = await server.call('getChildren', { pageId: '1', maxResults: 1, cursor: first.nextCursor });
+  assert.deepEqual(second.children.map((c) => c.id), ['3']);
+});
+
+test('walks a page tree to the requested depth', async () => {
+  const out = await server.call('getChildren', { pageId: '1', depth: 2 });
+  assert.equal(out.resultCount, 3);
+  assert.deepEqual(out.children[0].children.map((c) => c.title), ['Rollback runbook']);
+  assert.equal(
+    out.outline,
+    [
+      '- [Deploy guide](https://fake.example.net/wiki/spaces/ENG/pages/2/Deploy+guide)',
+      '  - [Rollback runbook](https://fake.example.net/wiki/spaces/ENG/pages/4/Rollback+runbook)',
+      '- [Release notes](https://fake.example.net/wiki/spaces/ENG/pages/3/Release+notes)',
+    ].join('\n'),
+  );
+
+  const capped = await server.call('getChildren', { pageId: '1', depth: 2, maxResults: 2 });
+  assert.equal(capped.resultCount, 2);
+  assert.equal(capped.truncated, true);
+
+  // Cursors page through one level only
+  const { nextCursor } = await server.call('getChildren', { pageId: '1', maxResults: 1 });
+  await assert.rejects(server.call('getChildren', { pageId: '1', depth: 2, cursor: nextCursor }), (error) => error.rpc.code === -32602);
+});
+
+test('builds the breadcrumb of a page', async () => {
+  const out = await server.call('getAncestors', { pageId: '4' });
+  assert.equal(out.spaceKey, 'ENG');
+  assert.deepEqual(out.ancestors.map((a) => a.id), ['1', '2']);
+  assert.equal(out.breadcrumb, 'Engineering Home > Deploy guide > Rollback runbook');
+});
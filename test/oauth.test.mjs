@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+const dir = mkdtempSync(join(tmpdir(), 'mcp-oauth-'));
+const oauthEnv = {
+  ATLASSIAN_OAUTH_CLIENT_ID: 'client',
+  ATLASSIAN_OAUTH_CLIENT_SECRET: 'secret',
+  ATLASSIAN_OAUTH_REDIRECT_URI: 'http://127.0.0.1/oauth/callback',
+  ATLASSIAN_OAUTH_ENCRYPTION_KEY: 'test-encryption-key',
+  ATLASSIAN_OAUTH_TOKEN_STORE: join(dir, 'tokens.json'),
+};
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('token refresh', () => {
+  // Stands in for auth.atlassian.com: refresh tokens rotate and each one works once
+  const calls = [];
+  let current = 'refresh-1';
+  let issued = 0;
+  const realFetch = globalThis.fetch;
+  let oauth;
+
+  before(async () => {
+    Object.assign(process.env, oauthEnv);
+    // oauth.js keeps the fetch it finds when first imported
+    globalThis.fetch = async (url, init = {}) => {
+      const json = (status, body) => new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+      if (String(url).endsWith('/me')) return json(200, { account_id: 'acct-1', name: 'Ada' });
+      const body = JSON.parse(init.body);
+      calls.push(body.grant_type);
+      await new Promise((r) => setTimeout(r, 20));
+      if (body.grant_type === 'refresh_token' && body.refresh_token !== current) return json(403, { error: 'invalid_grant' });
+      current = `refresh-${++issued + 1}`;
+      // expires_in of 60s is renewed a minute early, so every token needs a refresh on next use
+      return json(200, { access_token: `access-${issued}`, refresh_token: current, expires_in: 60 });
+    };
+    oauth = await import('../dist/oauth.js');
+    globalThis.fetch = realFetch;
+    await oauth.completeLogin('code');
+  });
+
+  test('concurrent calls share one refresh', async () => {
+    const tokens = await Promise.all([oauth.getUserAccessToken('acct-1'), oauth.getUserAccessToken('acct-1'), oauth.getUserAccessToken('acct-1')]);
+    assert.deepEqual(tokens, ['access-2', 'access-2', 'access-2']);
+    assert.deepEqual(calls, ['authorization_code', 'refresh_token']);
+  });
+
+  test('the rotated refresh token is used next', async () => {
+    assert.equal(await oauth.getUserAccessToken('acct-1'), 'access-3');
+  });
+
+  test('a rejected refresh signs the user out', async () => {
+    current = 'revoked';
+    assert.equal(await oauth.getUserAccessToken('acct-1'), undefined);
+    assert.equal(await oauth.getUserAccessToken('acct-1'), undefined);
+    assert.equal(calls.filter((c) => c === 'refresh_token').length, 3);
+  });
+});
+
+describe('sign-in links', () => {
+  let server;
+  let loginUrl;
+
+  before(async () => {
+    server = await startServer(fixture('site.json'), { ...oauthEnv, ATLASSIAN_REQUIRE_USER_AUTH: 'true' });
+    const init = await server.post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } });
+    const sessionId = init.headers.get('mcp-session-id');
+    const reply = await server.post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'getPage', arguments: { pageId: '1' } } },
+      { 'mcp-session-id': sessionId },
+    );
+    const out = JSON.parse(reply.body.result.content[0].text);
+    assert.equal(out.error.code, 'AUTH_REQUIRED');
+    loginUrl = new URL(out.error.details.loginUrl);
+    assert.ok(!loginUrl.href.includes(sessionId), 'the link must not reveal the session id');
+  });
+
+  after(() => server?.stop());
+
+  test('work once', async () => {
+    const open = () => fetch(`${server.url}${loginUrl.pathname}${loginUrl.search}`, { redirect: 'manual' });
+    const first = await open();
+    assert.equal(first.status, 302);
+    const authorize = new URL(first.headers.get('location'));
+    assert.equal(authorize.origin, 'https://auth.atlassian.com');
+    assert.ok(authorize.searchParams.get('state'));
+
+    assert.equal((await open()).status, 400);
+  });
+
+  test('refuse unknown login ids and callback states', async () => {
+    assert.equal((await fetch(`${server.url}/oauth/login?login=guessed`, { redirect: 'manual' })).status, 400);
+    assert.equal((await fetch(`${server.url}/oauth/callback?state=guessed&code=x`)).status, 400);
+  });
+});
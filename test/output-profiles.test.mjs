@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('site.json'), {
+    OUTPUT_PROFILE: 'compact',
+    ATLASSIAN_PROFILE_1_ID: 'studio',
+    ATLASSIAN_PROFILE_1_BASE_URL: 'https://fake.example.net',
+    ATLASSIAN_PROFILE_1_EMAIL: 'bot@example.net',
+    ATLASSIAN_PROFILE_1_API_TOKEN: 'offline',
+    ATLASSIAN_PROFILE_1_OUTPUT_PROFILE: 'copilot-studio',
+  });
+});
+
+after(() => server?.stop());
+
+// JSON-RPC to the studio connection's route
+async function studio(method, params) {
+  const res = await fetch(`${server.url}/studio/mcp`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', accept: 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+  return (await res.json()).result;
+}
+
+test('uses OUTPUT_PROFILE by default', async () => {
+  const out = await server.call('searchPages', { query: 'kubectl' });
+  assert.deepEqual(Object.keys(out).sort(), ['resultCount', 'results']);
+  assert.deepEqual(out.results.map((r) => r.title), ['Deploy guide', 'Rollback runbook']);
+});
+
+test('lets a call pick its own profile and fields', async () => {
+  const list = await server.call('searchPages', { query: 'kubectl', outputProfile: 'markdown' });
+  assert.equal(
+    list.markdown,
+    '1. [Deploy guide](https://fake.example.net/wiki/spaces/ENG/pages/2/Deploy+guide)\n2. [Rollback runbook](https://fake.example.net/wiki/spaces/ENG/pages/4/Rollback+runbook)',
+  );
+
+  const table = await server.call('searchPages', { query: 'kubectl', outputProfile: 'markdown', fields: ['space'] });
+  assert.deepEqual(table.results[0], { id: '2', title: 'Deploy guide', url: 'https://fake.example.net/wiki/spaces/ENG/pages/2/Deploy+guide', spaceKey: 'ENG', spaceName: 'Engineering' });
+  assert.equal(table.markdown.split('\n')[0], '| # | Title | Space |');
+  assert.match(table.markdown, /^\| 2 \| \[Rollback runbook\]\(.+\) \| Engineering \|$/m);
+});
+
+test("follows the connection's credential profile", async () => {
+  const init = await studio('initialize', { protocolVersion: '2025-06-18', capabilities: {} });
+  assert.match(init.instructions, /You MUST display EVERY SINGLE result/);
+
+  const out = (await studio('tools/call', { name: 'searchPages', arguments: { query: 'kubectl' } })).structuredContent;
+  assert.match(out.resultSummary, /^Found 2 results out of 2 total matches for "kubectl"/);
+  assert.equal(out.results[0].title, 'DISPLAY ALL 2 RESULTS BELOW - DO NOT STOP AT 10 - [1] Deploy guide');
+  assert.equal(out.results[1].title, '[2] Rollback runbook');
+  assert.ok(out.displayInstructions);
+});
+
+test('shortens excerpts in the compact profile', async () => {
+  const { formatSearchResults } = await import('../dist/formats.js');
+  const hit = { id: '1', title: 'Long', url: 'https://fake.example.net/x', excerpt: 'word '.repeat(100).trim() };
+  const outcome = { query: 'word', cql: 'text ~ "word"', hits: [hit], totalAvailable: 1, pagination: { start: 0, limit: 1, size: 1 }, fields: ['excerpt'] };
+  const excerpt = formatSearchResults('compact', outcome).results[0].excerpt;
+  assert.equal(excerpt.length, 160);
+  assert.ok(excerpt.endsWith('…'));
+  assert.equal(formatSearchResults('raw', outcome).results[0].excerpt, hit.excerpt);
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('policy-site.json'), { ACCESS_POLICY_FILE: fixture('policy.json') });
+});
+
+after(() => server?.stop());
+
+test('hides denied ancestors in the breadcrumb', async () => {
+  const out = await server.call('getAncestors', { pageId: '3' });
+  assert.deepEqual(out.ancestors.map((a) => [a.id, a.title]), [['1', 'Engineering Home'], ['', '(hidden by access policy)']]);
+  assert.equal(out.breadcrumb, 'Engineering Home > (hidden by access policy) > Credentials rotation');
+  assert.equal(out.filteredByPolicy.count, 1);
+});
+
+test('refuses denied pages', async () => {
+  const out = await server.call('getPage', { pageId: '2' });
+  assert.equal(out.error.code, 'POLICY_DENIED');
+});
+
+test('redacts page content', async () => {
+  const page = await server.call('getPage', { pageId: '3' });
+  assert.equal(page.markdown, 'Old key [REDACTED AWS KEY] was rotated.');
+});
+
+test('leaves paging cursors intact', async () => {
+  const first = await server.call('searchPages', { query: 'rotation', limit: 1, maxResults: 1 });
+  assert.match(first.pagination.nextCursor, /^eyJ/);
+  const second = await server.call('searchPages', { query: 'rotation', limit: 1, maxResults: 1, cursor: first.pagination.nextCursor });
+  assert.equal(second.results.length, 1);
+  assert.notEqual(second.results[0].id, first.results[0].id);
+});
+
+test('matches personal space keys as written', async () => {
+  const page = await server.call('getPage', { pageId: '7' });
+  assert.equal(page.title, "Ada's notes");
+
+  const out = await server.call('searchPages', { query: 'rotation' });
+  assert.deepEqual(out.results.map((r) => r.id).sort(), ['3', '4', '5', '7']);
+});
+
+test('leaves comments on denied pages out of searches', async () => {
+  const out = await server.call('searchPages', { query: 'rotation', types: ['page', 'comment'] });
+  assert.deepEqual(out.results.map((r) => r.id).sort(), ['3', '4', '5', '7']);
+});
+
+test('refuses to create pages under a denied parent', async () => {
+  const denied = await server.call('createPage', { spaceKey: 'ENG', title: 'Follow-up', markdown: 'Notes', parentId: '2', dryRun: true });
+  assert.equal(denied.error.code, 'POLICY_DENIED');
+
+  const planned = await server.call('createPage', { spaceKey: 'ENG', title: 'Follow-up', markdown: 'Notes', parentId: '1', dryRun: true });
+  assert.equal(planned.dryRun, true);
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { ProfileStore } from '../dist/profiles.js';
+import { fixture, startServer } from './helpers.mjs';
+
+const dir = mkdtempSync(join(tmpdir(), 'mcp-profiles-'));
+const profilesFile = join(dir, 'profiles.json');
+writeFileSync(profilesFile, JSON.stringify({
+  eng: { baseUrl: 'https://eng.example.net', email: 'bot@example.net', apiToken: 'env:ENG_TOKEN' },
+  ops: { baseUrl: 'https://ops.example.net/', authType: 'bearer', token: 'ops-token', outputProfile: 'compact' },
+}));
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+// Load profiles from exactly these variables, restoring the environment afterwards
+function storeFrom(vars) {
+  const saved = { ...process.env };
+  for (const key of Object.keys(process.env)) {
+    if (/^(CONFLUENCE_|JIRA_|ATLASSIAN_PROFILE)/.test(key)) delete process.env[key];
+  }
+  Object.assign(process.env, vars);
+  try {
+    return ProfileStore.fromEnvironment();
+  } finally {
+    for (const key of Object.keys(process.env)) if (!(key in saved)) delete process.env[key];
+    Object.assign(process.env, saved);
+  }
+}
+
+describe('profile loading', () => {
+  test('reads the file and indexed variables, later sources winning', () => {
+    const store = storeFrom({
+      ATLASSIAN_PROFILES_FILE: profilesFile,
+      ENG_TOKEN: 'eng-token',
+      ATLASSIAN_PROFILE_1_ID: 'ops',
+      ATLASSIAN_PROFILE_1_BASE_URL: 'https://ops2.example.net',
+      ATLASSIAN_PROFILE_1_AUTH_TYPE: 'bearer',
+      ATLASSIAN_PROFILE_1_TOKEN: 'pat',
+      ATLASSIAN_PROFILE_1_FLAVOR: 'server',
+      ATLASSIAN_PROFILE_1_CONTEXT_PATH: '/confluence/',
+    });
+    const eng = store.resolve('eng').profile;
+    assert.deepEqual([eng.baseUrl, eng.contextPath, eng.apiToken], ['https://eng.example.net', '/wiki', 'eng-token']);
+    const ops = store.resolve('ops');
+    assert.equal(ops.source, 'ATLASSIAN_PROFILE_1_* environment variables');
+    assert.deepEqual([ops.profile.baseUrl, ops.profile.flavor, ops.profile.contextPath, ops.profile.token], ['https://ops2.example.net', 'datacenter', '/confluence', 'pat']);
+  });
+
+  test('reports invalid profiles instead of loading them', () => {
+    const store = storeFrom({
+      ATLASSIAN_PROFILE_1_ID: 'broken',
+      ATLASSIAN_PROFILE_1_BASE_URL: 'eng.example.net',
+      ATLASSIAN_PROFILE_1_AUTH_TYPE: 'bearer',
+      ATLASSIAN_PROFILE_1_CONTEXT_PATH: '/confluence',
+      ATLASSIAN_PROFILE_1_OUTPUT_PROFILE: 'fancy',
+    });
+    const entry = store.resolve('broken');
+    assert.equal(entry.profile, undefined);
+    assert.deepEqual(entry.errors, [
+      'baseUrl must be an http(s) URL: eng.example.net',
+      'contextPath can only be set for flavor "datacenter"',
+      'outputProfile must be one of raw, markdown, compact, copilot-studio; got "fancy"',
+      'token is required for authType "bearer"',
+    ]);
+  });
+
+  test('falls back to the default profile only when it is the only one', () => {
+    const single = storeFrom({ CONFLUENCE_BASE_URL: 'https://eng.example.net', CONFLUENCE_EMAIL: 'bot@example.net', CONFLUENCE_API_TOKEN: 'token' });
+    assert.equal(single.resolve('anything').id, 'default');
+
+    const multi = storeFrom({ CONFLUENCE_BASE_URL: 'https://eng.example.net', CONFLUENCE_EMAIL: 'bot@example.net', CONFLUENCE_API_TOKEN: 'token', ATLASSIAN_PROFILES_FILE: profilesFile });
+    assert.equal(multi.resolve('anything'), undefined);
+    assert.equal(multi.resolve().id, 'default');
+  });
+});
+
+describe('connection routes', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer(fixture('site.json'), { ATLASSIAN_PROFILES_FILE: profilesFile, ENG_TOKEN: 'eng-token' });
+  });
+
+  after(() => server?.stop());
+
+  async function post(path, body, headers = {}) {
+    const res = await fetch(`${server.url}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, ...body }),
+    });
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  }
+
+  const getPage = (path) => post(path, { method: 'tools/call', params: { name: 'getPage', arguments: { pageId: '2' } } });
+
+  test("use the connection's profile", async () => {
+    assert.match((await getPage('/eng/mcp')).body.result.structuredContent.url, /^https:\/\/eng\.example\.net\/wiki\//);
+    assert.match((await getPage('/apim/gateway/ops/mcp')).body.result.structuredContent.url, /^https:\/\/ops\.example\.net\/wiki\//);
+  });
+
+  test('refuse an unknown connection', async () => {
+    const out = JSON.parse((await getPage('/nope/mcp')).body.result.content[0].text);
+    assert.equal(out.error.code, 'CONFIGURATION_ERROR');
+  });
+
+  test('keep sessions on the connection that opened them', async () => {
+    const init = await post('/eng/mcp', { method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {} } });
+    const session = { 'mcp-session-id': init.headers.get('mcp-session-id') };
+    assert.equal((await post('/eng/mcp', { method: 'ping' }, session)).status, 200);
+    assert.equal((await post('/ops/mcp', { method: 'ping' }, session)).status, 404);
+  });
+});
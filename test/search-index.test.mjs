@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+// The index reads its settings at import
+const dir = mkdtempSync(join(tmpdir(), 'mcp-index-'));
+Object.assign(process.env, {
+  CONFLUENCE_BASE_URL: 'https://fake.example.net',
+  CONFLUENCE_EMAIL: 'tester@example.net',
+  CONFLUENCE_API_TOKEN: 'offline',
+  SEARCH_INDEX_SPACES: 'ENG',
+  SEARCH_INDEX_FILE: join(dir, 'index.json'),
+  LOG_LEVEL: 'error',
+});
+
+let fake;
+let searchIndex;
+// Paths of the page bodies the sync downloaded
+const downloads = [];
+
+before(async () => {
+  const { FakeConfluence } = await import('../dist/fake-confluence.js');
+  const { setBackend } = await import('../dist/backend.js');
+  fake = new FakeConfluence(JSON.parse(readFileSync(fixture('site.json'), 'utf8')));
+  setBackend({
+    name: 'test',
+    fetch: (url, init) => {
+      const m = new URL(url).pathname.match(/\/rest\/api\/content\/(\d+)$/);
+      if (m && (init.method || 'GET') === 'GET') downloads.push(m[1]);
+      return fake.fetch(url, init);
+    },
+  });
+  searchIndex = await import('../dist/search-index.js');
+  await searchIndex.syncSearchIndex();
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const search = (query, opts = {}) => searchIndex.getSearchIndex().search(query, { limit: 10, ...opts });
+
+test('splits pages into passages under their headings', () => {
+  assert.deepEqual(searchIndex.splitPassages('Intro\n\n## Setup\n\nInstall it.\n\n## Use\n\nRun it.'), [
+    { heading: undefined, text: 'Intro' },
+    { heading: 'Setup', text: 'Install it.' },
+    { heading: 'Use', text: 'Run it.' },
+  ]);
+});
+
+test('indexes only the configured spaces', () => {
+  assert.deepEqual(downloads.sort(), ['1', '2', '3', '4']);
+  assert.equal(searchIndex.getSearchIndex().size, 4);
+  assert.deepEqual(searchIndex.getSearchIndex().staleSpaces(), []);
+});
+
+test('ranks pages by their best passage, boosting title matches', () => {
+  const hits = search('rollback kubectl');
+  assert.deepEqual(hits.map((h) => h.id), ['4', '2']);
+  assert.ok(hits[0].score > hits[1].score);
+
+  const [steps] = search('build image');
+  assert.equal(steps.id, '2');
+  assert.equal(steps.heading, 'Steps');
+  assert.match(steps.snippet, /Build the image/);
+});
+
+test('filters hits by label', () => {
+  assert.deepEqual(search('deploy').map((h) => h.id).sort(), ['1', '2', '3']);
+  assert.deepEqual(search('deploy', { labels: ['RUNBOOK'] }).map((h) => h.id), ['2']);
+});
+
+test('a later sync downloads only the pages that changed', async () => {
+  const res = await fake.fetch('https://fake.example.net/wiki/rest/api/content/3', {
+    method: 'PUT',
+    headers: { Authorization: 'Basic x', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title: 'Release notes', version: { number: 2 }, body: { storage: { value: '<p>Version 3 adds canary rollouts.</p>', representation: 'storage' } } }),
+  });
+  assert.equal(res.status, 200);
+
+  downloads.length = 0;
+  await searchIndex.syncSearchIndex();
+  assert.deepEqual(downloads, ['3']);
+  assert.deepEqual(search('canary').map((h) => h.id), ['3']);
+});
+
+test('searchIndex answers from the index, and from the live site for other spaces', async () => {
+  const server = await startServer(fixture('site.json'), { SEARCH_INDEX_SPACES: 'ENG', SEARCH_INDEX_FILE: join(dir, 'server-index.json') });
+  try {
+    // The first sync runs in the background at startup
+    let out;
+    for (let tries = 0; tries < 50; tries++) {
+      out = await server.call('searchIndex', { query: 'kubectl' });
+      if (out.source === 'index') break;
+      await new Promise((r) => setTimeout(r, 100));
+    }
+    assert.equal(out.source, 'index');
+    assert.deepEqual(out.results.map((r) => r.id).sort(), ['2', '4']);
+
+    const live = await server.call('searchIndex', { query: 'deploy', spaceKey: 'OPS' });
+    assert.equal(live.source, 'live');
+    assert.equal(live.fallbackReason, 'Spaces not in the search index: OPS');
+    assert.deepEqual(live.results.map((r) => r.id), ['10']);
+  } finally {
+    await server.stop();
+  }
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { fixture, startServer } from './helpers.mjs';
+
+let server;
+
+before(async () => {
+  server = await startServer(fixture('site.json'), { CONFLUENCE_WRITE_SPACES: 'ENG' });
+});
+
+after(() => server?.stop());
+
+test('previews a write with dryRun, even where writes are not enabled', async () => {
+  const out = await server.call('createPage', { spaceKey: 'OPS', title: 'Runbook index', markdown: '# Index', parentId: '10', dryRun: true });
+  assert.equal(out.dryRun, true);
+  assert.equal(out.writeAllowed, false);
+  assert.equal(out.request.method, 'POST');
+  assert.equal(out.request.url, 'https://fake.example.net/wiki/rest/api/content');
+  assert.deepEqual(out.request.body.ancestors, [{ id: '10' }]);
+  assert.equal(out.request.body.body.storage.value, '<h1>Index</h1>');
+
+  const search = await server.call('searchPages', { query: 'index', spaceKey: 'OPS', titleOnly: true });
+  assert.equal(search.results.length, 0);
+});
+
+test('refuses writes to spaces not listed in CONFLUENCE_WRITE_SPACES', async () => {
+  const out = await server.call('createPage', { spaceKey: 'OPS', title: 'Runbook index', markdown: '# Index' });
+  assert.equal(out.error.code, 'WRITE_NOT_ALLOWED');
+
+  const labelled = await server.call('addLabels', { pageId: '10', labels: ['oncall'] });
+  assert.equal(labelled.error.code, 'WRITE_NOT_ALLOWED');
+});
+
+test('creates a page from Markdown and refuses a duplicate title', async () => {
+  const created = await server.call('createPage', { spaceKey: 'ENG', title: 'Incident log', markdown: '## Today\n\nAll quiet.', parentId: '1' });
+  assert.equal(created.version, 1);
+  assert.match(created.url, /^https:\/\/fake\.example\.net\/wiki\/spaces\/ENG\/pages\/\d+/);
+
+  const page = await server.call('getPage', { pageId: created.id });
+  assert.equal(page.markdown, '## Today\n\nAll quiet.');
+
+  const duplicate = await server.call('createPage', { spaceKey: 'ENG', title: 'Incident log', markdown: 'Again' });
+  assert.equal(duplicate.error.code, 'CONFLICT');
+});
+
+test('updates a page only from its current version', async () => {
+  const stale = await server.call('updatePage', { pageId: '3', markdown: 'Version 3 ships.', version: 7 });
+  assert.equal(stale.error.code, 'VERSION_CONFLICT');
+  assert.equal(stale.error.details.currentVersion, 1);
+
+  const updated = await server.call('updatePage', { pageId: '3', markdown: 'Version 3 ships.', version: 1, versionMessage: 'Next release' });
+  assert.equal(updated.version, 2);
+  assert.equal(updated.previousVersion, 1);
+  assert.equal(updated.title, 'Release notes');
+  assert.equal((await server.call('getPage', { pageId: '3' })).markdown, 'Version 3 ships.');
+});
+
+test('adds comments and labels', async () => {
+  const comment = await server.call('addComment', { pageId: '2', markdown: 'Step 2 needs **kubectl** 1.30.' });
+  assert.equal(comment.pageId, '2');
+  assert.match(comment.url, /focusedCommentId=\d+$/);
+
+  const labelled = await server.call('addLabels', { pageId: '2', labels: ['Deploy', 'runbook'] });
+  assert.deepEqual(labelled.labels, ['runbook', 'deploy']);
+});